@@ -1,111 +1,254 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useDeferredValue } from 'react';
 import Controls from './components/Controls';
 import BeamVisualizer from './components/BeamVisualizer';
-import { BeamParams, BeamModelType, BeamResult, CrossSectionType, UnitSystem } from './types';
-import { solveLinearBeam, solveNonlinearBeam, solvePRB1R, solvePRB3R } from './services/beamSolver';
+import LoadSweepChart from './components/LoadSweepChart';
+import PrbFitPanel from './components/PrbFitPanel';
+import StressChart from './components/StressChart';
+import InverseSolvePanel from './components/InverseSolvePanel';
+import DesignSynthesisPanel from './components/DesignSynthesisPanel';
+import StiffnessPanel from './components/StiffnessPanel';
+import ProjectPanel from './components/ProjectPanel';
+import EquilibriumPathChart from './components/EquilibriumPathChart';
+import PrbParameterChart from './components/PrbParameterChart';
+import { BeamParams, BeamModelType, BeamResult, BoundaryCondition, CrossSectionType, UnitSystem, PrbParameters, LoadMode, GravityDirection, Material, SectionDimensions, SectionTaper, TaperType, DesignCandidate, AnalysisState } from './types';
+import { solveModel, DEFAULT_CUSTOM_PRB } from './services/beamSolver';
+import { traceEquilibriumPath } from './services/equilibriumPath';
+import { decodePermalink, permalinkHash } from './services/permalink';
+import { LoadedProject } from './services/projectFile';
+import { downloadText, resultsCsv } from './services/resultExport';
+import { MATERIALS, factorOfSafety } from './services/materials';
+import { sectionProperties, sectionProfile, dimensionsToSI, scaleDimensions } from './services/sectionProperties';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Activity, Layout } from 'lucide-react';
+import { Activity, Layout, AlertTriangle, GitBranch, Link2, Check, Download } from 'lucide-react';
 
 const App: React.FC = () => {
+  // A permalink in the URL overrides the defaults below, field by field
+  const [linked] = useState(() => decodePermalink(window.location.hash));
+
   // Start in English units as requested
-  const [unitSystem, setUnitSystem] = useState<UnitSystem>(UnitSystem.ENGLISH);
-  const [sectionType, setSectionType] = useState<CrossSectionType>(CrossSectionType.RECTANGULAR);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(linked?.unitSystem ?? UnitSystem.ENGLISH);
+  const [sectionType, setSectionType] = useState<CrossSectionType>(linked?.sectionType ?? CrossSectionType.RECTANGULAR);
   
-  // Default dimensions: b=1.25in, h=1/32in (0.03125in)
-  const [dimensions, setDimensions] = useState({
+  // Default dimensions: b=1.25in, h=1/32in (0.03125in), in mm if a permalink chose metric units
+  const [dimensions, setDimensions] = useState<SectionDimensions>(() => linked?.dimensions ?? scaleDimensions({
     width: 1.25,      // in
     height: 0.03125,  // in
-    diameter: 0.5     // in
+    diameter: 0.5,    // in
+    wall: 0.0625,     // in
+    flange: 0.01,     // in
+    web: 0.01         // in
+  }, unitSystem === UnitSystem.METRIC ? 25.4 : 1));
+
+  const [taper, setTaper] = useState<SectionTaper>(linked?.taper ?? {
+    type: TaperType.UNIFORM,
+    tipWidth: 1,
+    tipHeight: 0.5,
+    stations: [
+      { s: 0, width: 1, height: 1 },
+      { s: 0.5, width: 1, height: 0.75 },
+      { s: 1, width: 1, height: 0.5 }
+    ]
   });
 
-  // Default physical params: E=30Mpsi, L=20in, P=0.5lbs
-  // Internal units are SI: L=20in=0.508m, E=30Mpsi=206.8GPa, P=0.5lb=2.224N
-  const [params, setParams] = useState<BeamParams>({
-    E: 30 * 6.89476e9, 
-    I: 0, // Calculated in useEffect
+  const [material, setMaterial] = useState<Material>(linked?.material ?? MATERIALS[0]);
+  const [customMaterials, setCustomMaterials] = useState<Material[]>([]);
+
+  // Default physical params: spring steel (E≈30Mpsi), L=20in, P=0.5lbs
+  // Internal units are SI: L=20in=0.508m, E=207GPa, P=0.5lb=2.224N
+  const [baseParams, setParams] = useState<BeamParams>({
+    E: MATERIALS[0].E, 
+    I: 0, // Derived from the section below
     L: 20 * 0.0254,
     P: 0.5 * 4.44822, 
     nP: 0,
     M0: 0,
-    c: 0, // Calculated in useEffect
-    A: 0  // Calculated in useEffect
+    loadMode: LoadMode.FIXED,
+    q: 0,
+    density: 7850, // Steel
+    gravity: GravityDirection.OFF,
+    c: 0, // Derived from the section below
+    A: 0, // Derived from the section below
+    kappa0: 0,
+    flexLength: 1 * 0.0254,
+    rigidLength: 19 * 0.0254,
+    ...linked?.params
   });
 
   const handleToggleUnitSystem = () => {
     setUnitSystem(prev => {
       const next = prev === UnitSystem.METRIC ? UnitSystem.ENGLISH : UnitSystem.METRIC;
-      setDimensions(d => {
-        if (next === UnitSystem.ENGLISH) {
-          // From metric (mm) to english (in)
-          return { width: d.width / 25.4, height: d.height / 25.4, diameter: d.diameter / 25.4 };
-        } else {
-          // From english (in) to metric (mm)
-          return { width: d.width * 25.4, height: d.height * 25.4, diameter: d.diameter * 25.4 };
-        }
-      });
+      // Metric dimensions are in mm, english in inches
+      setDimensions(d => scaleDimensions(d, next === UnitSystem.ENGLISH ? 1 / 25.4 : 25.4));
       return next;
     });
   };
 
-  useEffect(() => {
-    let newI: number;
-    let newC: number;
-    let newA: number;
-    const isMetric = unitSystem === UnitSystem.METRIC;
-
-    if (sectionType === CrossSectionType.RECTANGULAR) {
-      const b = isMetric ? dimensions.width / 1000 : dimensions.width * 0.0254;
-      const h = isMetric ? dimensions.height / 1000 : dimensions.height * 0.0254;
-      newI = (b * Math.pow(h, 3)) / 12;
-      newC = h / 2;
-      newA = b * h;
-    } else {
-      const d = isMetric ? dimensions.diameter / 1000 : dimensions.diameter * 0.0254;
-      newI = (Math.PI * Math.pow(d, 4)) / 64;
-      newC = d / 2;
-      newA = (Math.PI * Math.pow(d, 2)) / 4;
+  const profile = useMemo(
+    () => sectionProfile(sectionType, dimensionsToSI(dimensions, unitSystem), taper),
+    [sectionType, dimensions, unitSystem, taper]
+  );
+  // A tapered beam's I, c and A are its root values
+  const section = useMemo(() => {
+    if (profile) {
+      const { I, c, A } = profile[0];
+      return { I, c, A };
     }
+    return sectionProperties(sectionType, dimensionsToSI(dimensions, unitSystem));
+  }, [profile, sectionType, dimensions, unitSystem]);
+  const params = useMemo(() => ({ ...baseParams, ...section, profile }), [baseParams, section, profile]);
 
-    setParams(prev => ({
-      ...prev,
-      I: newI,
-      c: newC,
-      A: newA
-    }));
-  }, [sectionType, dimensions, unitSystem]);
-
-  const [selectedModels, setSelectedModels] = useState<BeamModelType[]>([
+  const [selectedModels, setSelectedModels] = useState<BeamModelType[]>(linked?.selectedModels ?? [
     BeamModelType.LINEAR,
     BeamModelType.NONLINEAR,
     BeamModelType.PRB_1R_CANTILEVER_PNP,
     BeamModelType.PRB_3R_SU
   ]);
 
-  const results = useMemo(() => {
-    const res: BeamResult[] = [];
-    selectedModels.forEach(model => {
-      switch (model) {
-        case BeamModelType.LINEAR: res.push(solveLinearBeam(params)); break;
-        case BeamModelType.NONLINEAR: res.push(solveNonlinearBeam(params)); break;
-        case BeamModelType.PRB_1R_CANTILEVER_P:
-        case BeamModelType.PRB_1R_CANTILEVER_PNP:
-        case BeamModelType.PRB_1R_MOMENT: res.push(solvePRB1R(params, model)); break;
-        case BeamModelType.PRB_3R_SU: res.push(solvePRB3R(params)); break;
-      }
+  const [customPrb, setCustomPrb] = useState<PrbParameters>(linked?.customPrb ?? DEFAULT_CUSTOM_PRB);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Everything a permalink or project file records
+  const analysisState = useMemo<AnalysisState>(() => {
+    const { I, c, A, profile, ...loads } = baseParams;
+    return { unitSystem, sectionType, dimensions, taper, material, params: loads, selectedModels, customPrb };
+  }, [unitSystem, sectionType, dimensions, taper, material, baseParams, selectedModels, customPrb]);
+
+  // Keep the URL in step with the analysis so it can be shared at any time
+  useEffect(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${permalinkHash(analysisState)}`);
+  }, [analysisState]);
+
+  // Pasting a different permalink into this tab only changes the hash, so reload to restore it
+  useEffect(() => {
+    const onHashChange = () => window.location.reload();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const copyPermalink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
     });
-    return res;
-  }, [params, selectedModels]);
+  };
+
+  // A loaded project replaces each field it holds; saved custom materials join the library.
+  // Dimensions only load with their unit system; a unit system loaded on its own converts
+  // the current dimensions, as the units toggle does
+  const handleLoadProject = (project: LoadedProject) => {
+    const { state } = project;
+    if (state.unitSystem && state.dimensions) {
+      setUnitSystem(state.unitSystem);
+      setDimensions(state.dimensions);
+    } else if (state.unitSystem && state.unitSystem !== unitSystem) {
+      setUnitSystem(state.unitSystem);
+      setDimensions(d => scaleDimensions(d, state.unitSystem === UnitSystem.ENGLISH ? 1 / 25.4 : 25.4));
+    }
+    if (state.sectionType) setSectionType(state.sectionType);
+    if (state.taper) setTaper(state.taper);
+    if (state.material) setMaterial(state.material);
+    if (state.params) setParams(prev => ({ ...prev, ...state.params }));
+    if (state.selectedModels) setSelectedModels(state.selectedModels);
+    if (state.customPrb) setCustomPrb(state.customPrb);
+    setCustomMaterials(prev => [
+      ...prev.filter(m => !project.customMaterials.some(l => l.name === m.name)),
+      ...project.customMaterials
+    ]);
+  };
+
+  const handleApplyFit = (prb: PrbParameters) => {
+    setCustomPrb(prb);
+    if (!selectedModels.includes(BeamModelType.PRB_NR_CUSTOM)) {
+      setSelectedModels([...selectedModels, BeamModelType.PRB_NR_CUSTOM]);
+    }
+  };
+
+  // Synthesized designs are uniform rectangular cantilevers; dimensions go back in display units
+  const handleApplyDesign = (design: DesignCandidate) => {
+    const dimScale = unitSystem === UnitSystem.METRIC ? 1000 : 1 / 0.0254;
+    setSectionType(CrossSectionType.RECTANGULAR);
+    setTaper(prev => ({ ...prev, type: TaperType.UNIFORM }));
+    setDimensions(prev => ({ ...prev, width: design.b * dimScale, height: design.h * dimScale }));
+    setParams(prev => ({ ...prev, L: design.L, P: design.P, nP: design.nP, M0: design.M0 }));
+  };
+
+  // Heavy analyses follow the parameters in the background, so rapid edits such as
+  // dragging a load keep the beam and the results table responsive
+  const deferredParams = useDeferredValue(params);
+  const pathsCurrent = deferredParams === params;
+
+  // Equilibrium paths of the selected nonlinear models, traced by arc-length continuation
+  const equilibriumPaths = useMemo(
+    () => selectedModels
+      .filter(m => m === BeamModelType.NONLINEAR || m === BeamModelType.NONLINEAR_GUIDED)
+      .map(m => traceEquilibriumPath(deferredParams, m === BeamModelType.NONLINEAR_GUIDED)),
+    [deferredParams, selectedModels]
+  );
+
+  // A traced path already holds its model's solution, with the other equilibria as alternates;
+  // until the paths catch up with the parameters, the nonlinear models are solved directly
+  const results = useMemo(
+    () => selectedModels.map(model => {
+      const guided = model === BeamModelType.NONLINEAR_GUIDED;
+      const path = pathsCurrent && (model === BeamModelType.NONLINEAR || guided)
+        ? equilibriumPaths.find(p => p.label === (guided ? 'Nonlinear (Guided)' : 'Nonlinear'))
+        : undefined;
+      if (!path || path.solutions.length === 0) return solveModel(params, model, customPrb);
+      const [primary, ...alternates] = path.solutions;
+      return alternates.length > 0 ? { ...primary, alternates } : primary;
+    }),
+    [params, selectedModels, customPrb, equilibriumPaths, pathsCurrent]
+  );
+  const deferredResults = useDeferredValue(results);
+
+  // Kept as one element so React skips these panels until the deferred values change
+  const analysisPanels = useMemo(() => (
+    <>
+      <StressChart results={deferredResults} unitSystem={unitSystem} />
+
+      <EquilibriumPathChart paths={equilibriumPaths} unitSystem={unitSystem} />
+
+      {selectedModels.includes(BeamModelType.PRB_1R_CANTILEVER_PNP) && <PrbParameterChart params={deferredParams} />}
+
+      <StiffnessPanel params={deferredParams} selectedModels={selectedModels} customPrb={customPrb} results={deferredResults} unitSystem={unitSystem} />
+
+      <LoadSweepChart params={deferredParams} selectedModels={selectedModels} customPrb={customPrb} unitSystem={unitSystem} />
+    </>
+  ), [deferredResults, deferredParams, equilibriumPaths, selectedModels, customPrb, unitSystem]);
+
+  // Each model is compared against the nonlinear solution with the same boundary condition
+  const referenceFor = (r: BeamResult) => {
+    const boundary = r.boundary ?? BoundaryCondition.CANTILEVER;
+    const reference = results.find(n =>
+      (n.label === 'Nonlinear' || n.label === 'Nonlinear (Guided)') &&
+      (n.boundary ?? BoundaryCondition.CANTILEVER) === boundary
+    );
+    return reference && reference !== r ? reference : undefined;
+  };
 
   const chartData = results.map(r => {
     const isMetric = unitSystem === UnitSystem.METRIC;
     const scale = isMetric ? 1 : 1 / 0.0254;
+    const reference = referenceFor(r);
+    const error = reference ? Math.sqrt(Math.pow(r.tipX - reference.tipX, 2) + Math.pow(r.tipY - reference.tipY, 2)) : 0;
+    const referenceNorm = reference ? Math.sqrt(Math.pow(reference.tipX, 2) + Math.pow(reference.tipY, 2)) : 0;
     return {
       name: r.label,
       tipX: parseFloat((r.tipX * scale).toFixed(4)),
       tipY: parseFloat((r.tipY * scale).toFixed(4)),
       tipAngleDeg: parseFloat((r.tipAngle * (180 / Math.PI)).toFixed(2)),
-      error: r.label === 'Nonlinear' ? 0 : Math.sqrt(Math.pow(r.tipX - (results.find(n => n.label === 'Nonlinear')?.tipX || r.tipX), 2) + Math.pow(r.tipY - (results.find(n => n.label === 'Nonlinear')?.tipY || r.tipY), 2))
+      maxStress: r.maxStress * (isMetric ? 1e-6 : 1 / 6.89476e6),
+      safetyFactor: factorOfSafety(r.maxStress, material.yieldStrength),
+      fatigueSafetyFactor: factorOfSafety(r.maxStress, material.fatigueStrength),
+      error,
+      errorPct: referenceNorm > 0 ? (error / referenceNorm * 100).toFixed(2) : "0.00",
+      converged: r.converged,
+      iterations: r.iterations,
+      residual: r.residual,
+      stable: r.stable,
+      validity: r.validity,
+      equilibria: 1 + (r.alternates?.length ?? 0)
     };
   });
 
@@ -123,6 +266,14 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex gap-4">
+             <button
+               onClick={copyPermalink}
+               title="Copy a link that reopens this exact analysis"
+               className="flex items-center gap-1.5 px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-semibold rounded-full border border-slate-200 transition-colors"
+             >
+               {linkCopied ? <Check size={12} /> : <Link2 size={12} />}
+               {linkCopied ? 'Link Copied' : 'Copy Link'}
+             </button>
              <span className="px-3 py-1 bg-blue-50 text-blue-700 text-xs font-semibold rounded-full border border-blue-100">
                {unitSystem} Units Mode
              </span>
@@ -131,7 +282,8 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 max-w-7xl mx-auto w-full p-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
-        <div className="lg:col-span-4 xl:col-span-3">
+        <div className="lg:col-span-4 xl:col-span-3 space-y-6">
+          <ProjectPanel state={analysisState} customMaterials={customMaterials} onLoad={handleLoadProject} />
           <Controls 
             params={params} 
             setParams={setParams} 
@@ -141,14 +293,30 @@ const App: React.FC = () => {
             setSectionType={setSectionType}
             dimensions={dimensions}
             setDimensions={setDimensions}
+            taper={taper}
+            setTaper={setTaper}
             unitSystem={unitSystem}
             onToggleUnitSystem={handleToggleUnitSystem}
             results={results}
+            customPrb={customPrb}
+            setCustomPrb={setCustomPrb}
+            material={material}
+            setMaterial={setMaterial}
+            customMaterials={customMaterials}
+            setCustomMaterials={setCustomMaterials}
           />
         </div>
 
         <div className="lg:col-span-8 xl:col-span-9 space-y-6">
-          <BeamVisualizer results={results} length={params.L} params={params} />
+          <BeamVisualizer
+            results={results}
+            length={params.L}
+            params={params}
+            unitSystem={unitSystem}
+            selectedModels={selectedModels}
+            customPrb={customPrb}
+            onLoadsChange={loads => setParams(prev => ({ ...prev, ...loads }))}
+          />
 
           <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
             <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
@@ -175,7 +343,16 @@ const App: React.FC = () => {
             </div>
 
             <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200 overflow-hidden">
-               <h3 className="text-lg font-bold text-slate-800 mb-6">Results Summary ({unitSystem === UnitSystem.METRIC ? 'SI' : 'English'})</h3>
+               <div className="flex items-center justify-between mb-6">
+                 <h3 className="text-lg font-bold text-slate-800">Results Summary ({unitSystem === UnitSystem.METRIC ? 'SI' : 'English'})</h3>
+                 <button
+                   onClick={() => downloadText('results.csv', resultsCsv(results, unitSystem, material.yieldStrength), 'text/csv')}
+                   title="Download these results, with any other equilibria, as CSV"
+                   className="flex items-center gap-1 px-2.5 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-semibold rounded-md transition-colors"
+                 >
+                   <Download size={12} /> CSV
+                 </button>
+               </div>
                <div className="overflow-x-auto">
                  <table className="w-full text-left text-sm">
                    <thead className="text-slate-500 border-b">
@@ -184,22 +361,68 @@ const App: React.FC = () => {
                        <th className="pb-3 font-semibold text-right">X ({unitSystem === UnitSystem.METRIC ? 'm' : 'in'})</th>
                        <th className="pb-3 font-semibold text-right">Y ({unitSystem === UnitSystem.METRIC ? 'm' : 'in'})</th>
                        <th className="pb-3 font-semibold text-right">θ₀ (°)</th>
+                       <th className="pb-3 font-semibold text-right">σ_max ({unitSystem === UnitSystem.METRIC ? 'MPa' : 'ksi'})</th>
+                       <th className="pb-3 font-semibold text-right">FoS</th>
                        <th className="pb-3 font-semibold text-right">Err (%)</th>
                      </tr>
                    </thead>
                    <tbody className="divide-y divide-slate-100">
                      {chartData.map((d, i) => {
-                       const nonlinear = chartData.find(x => x.name === 'Nonlinear');
-                       const errorPct = nonlinear && d.name !== 'Nonlinear' 
-                        ? (d.error / Math.sqrt(Math.pow(nonlinear.tipX / (unitSystem === UnitSystem.METRIC ? 1 : 39.37),2)+Math.pow(nonlinear.tipY / (unitSystem === UnitSystem.METRIC ? 1 : 39.37),2)) * 100).toFixed(2)
-                        : "0.00";
+                       const errorPct = d.errorPct;
 
                        return (
-                         <tr key={i} className="hover:bg-slate-50">
-                           <td className="py-3 font-medium text-slate-700">{d.name}</td>
+                         <tr key={i} className={d.validity && !d.validity.valid ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-slate-50'}>
+                           <td className="py-3 font-medium text-slate-700">
+                             <div className="flex items-center gap-1.5">
+                               {d.name}
+                               {!d.converged && (
+                                 <span
+                                   title={`Did not converge after ${d.iterations} iterations (residual ${d.residual.toExponential(2)})`}
+                                   className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-red-100 text-red-700"
+                                 >
+                                   <AlertTriangle size={10} /> Unconverged
+                                 </span>
+                               )}
+                               {d.validity && !d.validity.valid && (
+                                 <span
+                                   title={d.validity.warnings.join('\n')}
+                                   className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-amber-100 text-amber-700"
+                                 >
+                                   <AlertTriangle size={10} /> Out of Range
+                                 </span>
+                               )}
+                               {d.stable === false && (
+                                 <span
+                                   title="This equilibrium is unstable: a small disturbance moves the beam to another branch"
+                                   className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-red-100 text-red-700"
+                                 >
+                                   <AlertTriangle size={10} /> Unstable
+                                 </span>
+                               )}
+                               {d.equilibria > 1 && (
+                                 <span
+                                   title={`${d.equilibria} equilibria exist under these loads; the others are drawn dashed`}
+                                   className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-violet-100 text-violet-700"
+                                 >
+                                   <GitBranch size={10} /> {d.equilibria} solutions
+                                 </span>
+                               )}
+                             </div>
+                           </td>
                            <td className="py-3 text-right text-slate-600 font-mono">{d.tipX.toFixed(unitSystem === UnitSystem.METRIC ? 3 : 2)}</td>
                            <td className="py-3 text-right text-slate-600 font-mono">{d.tipY.toFixed(unitSystem === UnitSystem.METRIC ? 3 : 2)}</td>
                            <td className="py-3 text-right text-blue-600 font-mono">{d.tipAngleDeg.toFixed(1)}°</td>
+                           <td className="py-3 text-right text-slate-600 font-mono">{d.maxStress.toFixed(1)}</td>
+                           <td className="py-3 text-right">
+                             <span
+                               title={`Yield (S_y) FoS; fatigue (S_e) FoS ${isFinite(d.fatigueSafetyFactor) ? d.fatigueSafetyFactor.toFixed(2) : '∞'}`}
+                               className={`px-2 py-0.5 rounded-full text-xs font-semibold font-mono ${
+                                 d.safetyFactor < 1 ? 'bg-red-100 text-red-700' : d.safetyFactor < 1.5 ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'
+                               }`}
+                             >
+                               {isFinite(d.safetyFactor) ? d.safetyFactor.toFixed(2) : '∞'}
+                             </span>
+                           </td>
                            <td className="py-3 text-right">
                              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
                                parseFloat(errorPct) < 2 ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
@@ -214,10 +437,25 @@ const App: React.FC = () => {
                  </table>
                </div>
                <div className="mt-6 pt-4 border-t text-xs text-slate-400 italic leading-relaxed">
-                 *Results are converted to {unitSystem} for display. Internal solvers maintain high-precision SI consistency.
+                 *FoS is yield strength over peak bending stress for {material.name}; hover for the fatigue value. Shaded rows are PRB results outside the range their parameters were fitted over (hover the badge for the limit). Results are converted to {unitSystem} for display. Internal solvers maintain high-precision SI consistency.
                </div>
             </div>
           </div>
+
+          {analysisPanels}
+
+          <InverseSolvePanel
+            params={params}
+            selectedModels={selectedModels}
+            customPrb={customPrb}
+            results={results}
+            unitSystem={unitSystem}
+            onApplyLoads={loads => setParams(prev => ({ ...prev, ...loads }))}
+          />
+
+          <DesignSynthesisPanel params={params} material={material} unitSystem={unitSystem} onApply={handleApplyDesign} />
+
+          <PrbFitPanel params={params} onApply={handleApplyFit} />
         </div>
       </main>
 
@@ -1,20 +1,135 @@
 
-import React from 'react';
-import { BeamResult, Point, BeamParams } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BeamResult, Point, BeamParams, BeamModelType, PrbParameters, SegmentKind, LoadMode, UnitSystem } from '../types';
+import { curvedTip } from '../services/beamSolver';
+import { runLoadSweep } from '../services/loadSweep';
+import { interpolateProfile } from '../services/sectionProperties';
+import { downloadText, shapeCsv, shapeDxf, shapeSvg } from '../services/resultExport';
+import { Download, Play, Pause, SkipForward, Hand, Ruler, ZoomIn, ZoomOut, Crosshair, Maximize2 } from 'lucide-react';
 
 interface BeamVisualizerProps {
   results: BeamResult[];
   length: number;
   params: BeamParams;
+  unitSystem: UnitSystem;
+  selectedModels: BeamModelType[];
+  customPrb: PrbParameters;
+  onLoadsChange: (loads: Partial<Pick<BeamParams, 'P' | 'nP' | 'M0'>>) => void;
 }
 
-const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ results, length, params }) => {
+interface ViewBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// A drag in progress: 'arrow' sets the force from the pointer's offset to the tip,
+// 'tip' pulls the tip towards the pointer and 'moment' twists about the tip
+interface LoadDrag {
+  mode: 'arrow' | 'tip' | 'moment';
+  tip: Point;            // Anchor tip when the drag began (m)
+  psi: number;           // Follower rotation when the drag began
+  forceScale: number;    // Arrow: N per metre of pointer distance
+  angle: number;         // Moment: last pointer angle about the tip (unwrapped)
+  M0: number;            // Moment: M0 at that angle
+}
+
+const PLAYBACK_FRAMES = 60;
+const PLAYBACK_SECONDS = 4; // From unloaded to the full load at 1×
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Zoom limits, as the visible width over the auto-fitted width
+const MIN_ZOOM_SPAN = 1e-4;
+const MAX_ZOOM_SPAN = 5;
+// Measurement picks snap to a model point within this many viewBox pixels
+const SNAP_DISTANCE = 10;
+
+type CanvasTool = 'pan' | 'measure';
+
+interface MeasurePoint {
+  point: Point;
+  label?: string;  // Model whose point the pick snapped to
+}
+
+const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ results, length, params, unitSystem, selectedModels, customPrb, onLoadsChange }) => {
   const width = 800;
   const height = 400;
   const svgAspect = width / height;
 
-  // 1. Determine "True Scale" Bounds with padding
-  const allPoints = results.flatMap(r => r.points);
+  // Load playback: progress is the load factor on screen, or null to show the solved results
+  const [progress, setProgress] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [showTrail, setShowTrail] = useState(true);
+  const playbackActive = progress !== null;
+
+  // The view is frozen while dragging a load, so re-solving doesn't move the canvas under the pointer
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<LoadDrag | null>(null);
+  const [frozenView, setFrozenView] = useState<ViewBounds | null>(null);
+
+  // Dragged loads reach the app at most once per animation frame, however fast the pointer moves
+  const pendingLoads = useRef<Partial<Pick<BeamParams, 'P' | 'nP' | 'M0'>> | null>(null);
+  const loadsFrame = useRef(0);
+
+  // Zoom and pan replace the auto-fitted view until reset; the measure tool picks two points
+  const [userView, setUserView] = useState<ViewBounds | null>(null);
+  const [tool, setTool] = useState<CanvasTool>('pan');
+  const [picks, setPicks] = useState<MeasurePoint[]>([]);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const panRef = useRef<{ clientX: number; clientY: number; view: ViewBounds } | null>(null);
+  const viewRef = useRef<{ view: ViewBounds; fittedSpan: number } | null>(null);
+
+  // Every model solved from zero to the full load, only while playback is open
+  const frames = useMemo(
+    () => playbackActive
+      ? runLoadSweep(params, selectedModels, { steps: PLAYBACK_FRAMES, startFactor: 0, endFactor: 1, rampDistributed: true }, customPrb)
+        .map(sample => ({ loadFactor: sample.loadFactor, results: sample.results.map(r => ({ ...r, alternates: undefined })) }))
+      : [],
+    [playbackActive, params, selectedModels, customPrb]
+  );
+  const frameIndex = Math.round((progress ?? 1) * PLAYBACK_FRAMES);
+  const frame = playbackActive ? frames[frameIndex] : undefined;
+  const shown = frame ? frame.results : results;
+
+  useEffect(() => {
+    if (!playing) return;
+    let last: number | undefined;
+    let handle = 0;
+    const tick = (now: number) => {
+      const dt = last === undefined ? 0 : (now - last) / 1000;
+      last = now;
+      setProgress(p => Math.min(1, (p ?? 0) + (dt * speed) / PLAYBACK_SECONDS));
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing, speed]);
+
+  useEffect(() => {
+    if (playing && progress === 1) setPlaying(false);
+  }, [playing, progress]);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (progress === null || progress >= 1) setProgress(0);
+    setPlaying(true);
+  };
+
+  const stopPlayback = () => {
+    setPlaying(false);
+    setProgress(null);
+  };
+
+  // 1. Determine "True Scale" Bounds with padding; during playback they cover every frame so the view holds still
+  const allPoints = [
+    ...results.flatMap(r => [...r.points, ...(r.alternates ?? []).flatMap(a => a.points)]),
+    ...frames.flatMap(f => f.results.flatMap(r => r.points))
+  ];
   const rawMinX = Math.min(0, ...allPoints.map(p => p.x));
   const rawMaxX = Math.max(length, ...allPoints.map(p => p.x));
   const rawMinY = Math.min(0, ...allPoints.map(p => p.y));
@@ -39,33 +154,53 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ results, length, params
     viewRangeX = rangeY * svgAspect;
   }
 
-  const minX = centerX - viewRangeX / 2;
-  const maxX = centerX + viewRangeX / 2;
-  const minY = centerY - viewRangeY / 2;
-  const maxY = centerY + viewRangeY / 2;
+  const { minX, maxX, minY, maxY }: ViewBounds = frozenView ?? userView ?? {
+    minX: centerX - viewRangeX / 2,
+    maxX: centerX + viewRangeX / 2,
+    minY: centerY - viewRangeY / 2,
+    maxY: centerY + viewRangeY / 2
+  };
+  viewRef.current = { view: { minX, maxX, minY, maxY }, fittedSpan: viewRangeX };
+
+  // Scales the view about a model point, keeping that point fixed on screen
+  const zoomAbout = (view: ViewBounds, center: Point, factor: number, fittedSpan: number): ViewBounds => {
+    const span = view.maxX - view.minX;
+    const clamped = Math.min(MAX_ZOOM_SPAN * fittedSpan, Math.max(MIN_ZOOM_SPAN * fittedSpan, span * factor)) / span;
+    return {
+      minX: center.x + (view.minX - center.x) * clamped,
+      maxX: center.x + (view.maxX - center.x) * clamped,
+      minY: center.y + (view.minY - center.y) * clamped,
+      maxY: center.y + (view.maxY - center.y) * clamped
+    };
+  };
 
   const scaleX = (x: number) => ((x - minX) / (maxX - minX)) * width;
   const scaleY = (y: number) => height - ((y - minY) / (maxY - minY)) * height;
 
-  const renderPath = (points: Point[], color: string, isRigid: boolean) => {
+  const renderPath = (points: Point[], color: string, isRigid: boolean, segments?: SegmentKind[]) => {
     if (points.length < 2) return null;
     
     if (isRigid) {
       return (
         <g>
-          {points.slice(0, -1).map((p, i) => (
-            <line
-              key={i}
-              x1={scaleX(p.x)}
-              y1={scaleY(p.y)}
-              x2={scaleX(points[i+1].x)}
-              y2={scaleY(points[i+1].y)}
-              stroke={color}
-              strokeWidth="2.5"
-              strokeLinecap="round"
-            />
-          ))}
-          {points.map((p, i) => (
+          {points.slice(0, -1).map((p, i) => {
+            // Compliant spans (e.g. a flexural pivot) are drawn thin and dashed next to the rigid links
+            const flexible = segments?.[i] === SegmentKind.FLEXIBLE;
+            return (
+              <line
+                key={i}
+                x1={scaleX(p.x)}
+                y1={scaleY(p.y)}
+                x2={scaleX(points[i+1].x)}
+                y2={scaleY(points[i+1].y)}
+                stroke={color}
+                strokeWidth={flexible ? "1.5" : "2.5"}
+                strokeDasharray={flexible ? "3,2" : undefined}
+                strokeLinecap="round"
+              />
+            );
+          })}
+          {points.map((p, i) => (segments?.[i - 1] === SegmentKind.FLEXIBLE && segments?.[i] === SegmentKind.RIGID) ? null : (
             <circle
               key={`j-${i}`}
               cx={scaleX(p.x)}
@@ -96,8 +231,84 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ results, length, params
     );
   };
 
-  const majorStep = length * 0.1; 
-  const minorStep = length * 0.02; 
+  // Other equilibria under the same loads are drawn thin and dashed, fainter when unstable
+  const renderAlternate = (alternate: BeamResult, color: string, key: string) => {
+    if (alternate.points.length < 2) return null;
+    const d = alternate.points.reduce((acc, p, i) => acc + `${i === 0 ? 'M' : 'L'} ${scaleX(p.x)} ${scaleY(p.y)} `, "");
+    return (
+      <path
+        key={key}
+        d={d}
+        fill="none"
+        stroke={color}
+        strokeWidth="1.5"
+        strokeDasharray="6,4"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        opacity={alternate.stable === false ? 0.35 : 0.7}
+      />
+    );
+  };
+
+  // Angles beyond Θ_max around a 1R model's characteristic pivot, where its PRB parameters
+  // no longer hold; the link (pivot to points[2]) is unstressed along +x
+  const renderInvalidRegion = (res: BeamResult) => {
+    const thetaMax = res.validity?.thetaMax;
+    if (thetaMax === undefined || res.points.length < 3 || thetaMax >= Math.PI) return null;
+    const pivot = res.points[1];
+    const radius = Math.hypot(res.points[2].x - pivot.x, res.points[2].y - pivot.y);
+    const arc = Array.from({ length: 33 }, (_, i) => {
+      const a = thetaMax + (i / 32) * (2 * Math.PI - 2 * thetaMax);
+      return `${scaleX(pivot.x + radius * Math.cos(a))},${scaleY(pivot.y + radius * Math.sin(a))}`;
+    });
+    const center = `${scaleX(pivot.x)},${scaleY(pivot.y)}`;
+    return (
+      <polygon
+        points={[center, ...arc].join(' ')}
+        fill="#ef4444"
+        fillOpacity={res.validity?.valid ? 0.05 : 0.14}
+        stroke={res.color}
+        strokeOpacity={0.35}
+        strokeWidth="1"
+        strokeDasharray="3,3"
+      />
+    );
+  };
+
+  // Tapered beams get a band whose thickness follows the local depth c(s)/c(0); true-scale
+  // thickness would be invisible, so the root is drawn 10px thick
+  const renderTaperBand = (points: Point[], color: string) => {
+    const profile = params.profile;
+    if (!profile || points.length < 2) return null;
+    const screen = points.map(p => ({ x: scaleX(p.x), y: scaleY(p.y) }));
+    const arc = [0];
+    for (let i = 1; i < points.length; i++) arc.push(arc[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+    const total = arc[arc.length - 1] || 1;
+    const rootDepth = profile[0].c || 1;
+
+    const upper: string[] = [];
+    const lower: string[] = [];
+    screen.forEach((p, i) => {
+      const prev = screen[Math.max(0, i - 1)];
+      const next = screen[Math.min(screen.length - 1, i + 1)];
+      const dx = next.x - prev.x;
+      const dy = next.y - prev.y;
+      const len = Math.hypot(dx, dy) || 1;
+      const half = 5 * interpolateProfile(profile, arc[i] / total).c / rootDepth;
+      upper.push(`${p.x - (dy / len) * half},${p.y + (dx / len) * half}`);
+      lower.push(`${p.x + (dy / len) * half},${p.y - (dx / len) * half}`);
+    });
+    return <polygon points={[...upper, ...lower.reverse()].join(' ')} fill={color} fillOpacity={0.2} stroke={color} strokeOpacity={0.4} strokeWidth={0.75} />;
+  };
+
+  // Unstressed shape: a circular arc of curvature κ₀ (straight when κ₀ = 0)
+  const undeformedPath = Array.from({ length: 41 }, (_, i) => curvedTip((i / 40) * length, params.kappa0))
+    .reduce((acc, p, i) => acc + `${i === 0 ? 'M' : 'L'} ${scaleX(p.x)} ${scaleY(p.y)} `, "");
+
+  // Grid steps stay at 10% and 2% of L for the fitted view and shrink by decades when zoomed in
+  const zoomDecades = Math.round(Math.log10((maxX - minX) / viewRangeX));
+  const majorStep = length * 0.1 * Math.pow(10, Math.max(zoomDecades, Math.log10(MIN_ZOOM_SPAN) + 1));
+  const minorStep = majorStep / 5;
   
   const generateGrids = (step: number) => {
     const x = [];
@@ -111,30 +322,238 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ results, length, params
   const minor = generateGrids(minorStep);
 
   // Load Resultant Force Vector Components
-  // Physics Force: (nP, P). Horizontal = nP, Vertical = P.
+  // Physics Force: (−nP, P), as in the solver (positive nP is compressive). Vertical = P.
   // SVG axis: X is same as physics, Y is flipped (positive P is up in physics, which is negative Y in SVG).
   const F_mag = Math.sqrt(Math.pow(params.nP, 2) + Math.pow(params.P, 2));
   
+  // Anchor at the tip of the first selected model (typically Nonlinear)
+  const anchorModel = shown.find(r => r.label === 'Nonlinear') || shown[0];
+
+  // A follower load turns with the anchor tip, relative to its unstressed slope κ₀L
+  const psi = params.loadMode === LoadMode.FOLLOWER && anchorModel ? anchorModel.tipAngle - params.kappa0 * length : 0;
+
   // Normalized vector in SVG coordinates pointing ALONG the force direction
   let ux = 0, uy = 0;
   if (F_mag > 1e-12) {
-    ux = params.nP / F_mag;
-    uy = -params.P / F_mag; // Negate P because SVG Y increases downwards
+    const vx = -params.nP / F_mag;
+    const vy = params.P / F_mag;
+    ux = vx * Math.cos(psi) - vy * Math.sin(psi);
+    uy = -(vx * Math.sin(psi) + vy * Math.cos(psi)); // Negate because SVG Y increases downwards
   }
 
-  // Anchor at the tip of the first selected model (typically Nonlinear)
-  const anchorModel = results.find(r => r.label === 'Nonlinear') || results[0];
   const tipX = anchorModel ? anchorModel.tipX : length;
   const tipY = anchorModel ? anchorModel.tipY : 0;
   const sx = scaleX(tipX);
   const sy = scaleY(tipY);
 
+  const EI = params.E * params.I;
+  const isMetric = unitSystem === UnitSystem.METRIC;
+
+  // Pointer position in model coordinates (m), through the current view
+  const toModel = (e: { clientX: number; clientY: number }): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * width;
+    const py = ((e.clientY - rect.top) / rect.height) * height;
+    return { x: minX + (px / width) * (maxX - minX), y: minY + ((height - py) / height) * (maxY - minY) };
+  };
+
+  // A global force on the tip as P and nP, undoing the follower rotation
+  const forceToLoads = (fx: number, fy: number, psi: number) => {
+    const lx = fx * Math.cos(psi) + fy * Math.sin(psi);
+    const ly = -fx * Math.sin(psi) + fy * Math.cos(psi);
+    return { P: ly, nP: -lx };
+  };
+
+  const startDrag = (mode: 'arrow' | 'tip', e: React.PointerEvent) => {
+    if (!svgRef.current || EI <= 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    svgRef.current.setPointerCapture(e.pointerId);
+    const tip = { x: tipX, y: tipY };
+    const pointer = toModel(e);
+    const offset = Math.hypot(tip.x - pointer.x, tip.y - pointer.y);
+    dragRef.current = {
+      mode: e.shiftKey ? 'moment' : mode,
+      tip,
+      psi,
+      // Keep the grabbed arrow's magnitude where it was, then scale with the pointer's distance
+      forceScale: offset > 0 ? F_mag / offset : 0,
+      angle: Math.atan2(pointer.y - tip.y, pointer.x - tip.x),
+      M0: params.M0
+    };
+    setFrozenView({ minX, maxX, minY, maxY });
+  };
+
+  // Pan tool: dragging the background slides the view; measure tool: clicks pick points
+  const startCanvasPointer = (e: React.PointerEvent) => {
+    if (!svgRef.current || e.button !== 0) return;
+    if (tool === 'pan') {
+      svgRef.current.setPointerCapture(e.pointerId);
+      panRef.current = { clientX: e.clientX, clientY: e.clientY, view: { minX, maxX, minY, maxY } };
+      return;
+    }
+    const pick = snapToModel(toModel(e));
+    setPicks(prev => (prev.length >= 2 ? [pick] : [...prev, pick]));
+  };
+
+  const snapToModel = (pointer: Point): MeasurePoint => {
+    const unitsPerPixel = (maxX - minX) / width;
+    let best: MeasurePoint = { point: pointer };
+    let bestDistance = SNAP_DISTANCE * unitsPerPixel;
+    shown.forEach(r => [r.points, ...(r.alternates ?? []).map(a => a.points)].forEach(points => points.forEach(p => {
+      const d = Math.hypot(p.x - pointer.x, p.y - pointer.y);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = { point: p, label: r.label };
+      }
+    })));
+    return best;
+  };
+
+  const flushLoads = () => {
+    cancelAnimationFrame(loadsFrame.current);
+    loadsFrame.current = 0;
+    if (pendingLoads.current) onLoadsChange(pendingLoads.current);
+    pendingLoads.current = null;
+  };
+
+  const queueLoads = (loads: Partial<Pick<BeamParams, 'P' | 'nP' | 'M0'>>) => {
+    pendingLoads.current = { ...pendingLoads.current, ...loads };
+    if (!loadsFrame.current) loadsFrame.current = requestAnimationFrame(flushLoads);
+  };
+
+  useEffect(() => () => cancelAnimationFrame(loadsFrame.current), []);
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const pan = panRef.current;
+    if (pan && svgRef.current) {
+      const rect = svgRef.current.getBoundingClientRect();
+      const dx = ((e.clientX - pan.clientX) / rect.width) * (pan.view.maxX - pan.view.minX);
+      const dy = ((e.clientY - pan.clientY) / rect.height) * (pan.view.maxY - pan.view.minY);
+      setUserView({ minX: pan.view.minX - dx, maxX: pan.view.maxX - dx, minY: pan.view.minY + dy, maxY: pan.view.maxY + dy });
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag) {
+      if (tool === 'measure') setCursor(toModel(e));
+      return;
+    }
+    const pointer = toModel(e);
+    const dx = pointer.x - drag.tip.x;
+    const dy = pointer.y - drag.tip.y;
+    if (drag.mode === 'moment') {
+      // One radian of twist adds the moment that bends the straight beam through one radian
+      const angle = Math.atan2(dy, dx);
+      let delta = angle - Math.atan2(Math.sin(drag.angle), Math.cos(drag.angle));
+      if (delta > Math.PI) delta -= 2 * Math.PI;
+      if (delta < -Math.PI) delta += 2 * Math.PI;
+      drag.angle += delta;
+      drag.M0 += (EI / length) * delta;
+      queueLoads({ M0: drag.M0 });
+    } else if (drag.mode === 'arrow') {
+      // The arrow points at the tip, so the force runs from the pointer to the tip
+      queueLoads(forceToLoads(-dx * drag.forceScale, -dy * drag.forceScale, drag.psi));
+    } else {
+      // Pull the tip towards the pointer with the force a linear cantilever (3EI/L³) would need
+      const unloaded = curvedTip(length, params.kappa0);
+      const k = (3 * EI) / Math.pow(length, 3);
+      queueLoads(forceToLoads(k * (pointer.x - unloaded.x), k * (pointer.y - unloaded.y), drag.psi));
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    if (panRef.current) {
+      svgRef.current?.releasePointerCapture(e.pointerId);
+      panRef.current = null;
+      return;
+    }
+    if (!dragRef.current) return;
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    flushLoads();
+    dragRef.current = null;
+    setFrozenView(null);
+  };
+
+  const forceUnit = isMetric ? 'N' : 'lbf';
+  const forceScale = isMetric ? 1 : 1 / 4.44822;
+  const momentUnit = isMetric ? 'N·m' : 'lbf-in';
+  const momentScale = isMetric ? 1 : 1 / 0.112985;
+  const canDrag = tool === 'pan' && !playbackActive && !!anchorModel && EI > 0;
+
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll as well
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      const current = viewRef.current;
+      if (!current) return;
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const { view, fittedSpan } = current;
+      const center = {
+        x: view.minX + ((e.clientX - rect.left) / rect.width) * (view.maxX - view.minX),
+        y: view.maxY - ((e.clientY - rect.top) / rect.height) * (view.maxY - view.minY)
+      };
+      setUserView(zoomAbout(view, center, Math.exp(e.deltaY * 0.0015), fittedSpan));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const zoomBy = (factor: number) =>
+    setUserView(zoomAbout({ minX, maxX, minY, maxY }, { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, factor, viewRangeX));
+
+  // Frames the tips of every model, with room for their differences to show
+  const zoomToTip = () => {
+    const tips = shown.map(r => ({ x: r.tipX, y: r.tipY }));
+    if (tips.length === 0) return;
+    const tx = tips.map(t => t.x);
+    const ty = tips.map(t => t.y);
+    const cx = (Math.min(...tx) + Math.max(...tx)) / 2;
+    const cy = (Math.min(...ty) + Math.max(...ty)) / 2;
+    const spanX = Math.max(3 * (Math.max(...tx) - Math.min(...tx)), 3 * svgAspect * (Math.max(...ty) - Math.min(...ty)), 0.02 * length);
+    const spanY = spanX / svgAspect;
+    setUserView({ minX: cx - spanX / 2, maxX: cx + spanX / 2, minY: cy - spanY / 2, maxY: cy + spanY / 2 });
+  };
+
+  const lengthUnit = isMetric ? 'm' : 'in';
+  const lengthScale = isMetric ? 1 : 1 / 0.0254;
+  const lengthDigits = isMetric ? 5 : 4;
+  const formatLength = (x: number) => (x * lengthScale).toFixed(lengthDigits);
+  const formatPoint = (p: Point) => `(${formatLength(p.x)}, ${formatLength(p.y)})`;
+  const measured = picks.length === 2
+    ? { dx: picks[1].point.x - picks[0].point.x, dy: picks[1].point.y - picks[0].point.y }
+    : undefined;
+
+  const toolButton = (active: boolean) =>
+    `flex items-center justify-center w-7 h-7 rounded transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-slate-800/90 text-slate-300 hover:bg-slate-700'}`;
+
+  const exports = [
+    { label: 'CSV', save: () => downloadText('deformed-shapes.csv', shapeCsv(results, unitSystem), 'text/csv') },
+    { label: 'SVG', save: () => downloadText('deformed-shapes.svg', shapeSvg(results, length, params.kappa0, unitSystem), 'image/svg+xml') },
+    { label: 'DXF', save: () => downloadText(`deformed-shapes-${unitSystem === UnitSystem.METRIC ? 'mm' : 'in'}.dxf`, shapeDxf(results, length, params.kappa0, unitSystem), 'application/dxf') }
+  ];
+
   return (
     <div className="bg-slate-900 p-6 rounded-xl shadow-2xl border border-slate-700 overflow-hidden">
       <div className="flex items-center justify-between mb-4">
-        <h3 className="text-slate-100 font-semibold text-lg flex items-center gap-2">
-          Beam Deflection Canvas (True Scale 1:1)
-        </h3>
+        <div className="flex items-center gap-3">
+          <h3 className="text-slate-100 font-semibold text-lg flex items-center gap-2">
+            Beam Deflection Canvas (True Scale 1:1)
+          </h3>
+          <div className="flex gap-1">
+            {exports.map(e => (
+              <button
+                key={e.label}
+                onClick={e.save}
+                title={`Download the deformed shapes as ${e.label} (${unitSystem === UnitSystem.METRIC ? (e.label === 'CSV' ? 'm' : 'mm') : 'in'})`}
+                className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] font-semibold rounded border border-slate-700 transition-colors"
+              >
+                <Download size={10} /> {e.label}
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="flex flex-wrap justify-end gap-x-4 gap-y-2 text-[10px] max-w-md">
           {results.map(r => (
             <div key={r.label} className="flex items-center gap-1.5">
@@ -142,128 +561,340 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ results, length, params
               <span className="text-slate-400 font-medium whitespace-nowrap">{r.label}</span>
             </div>
           ))}
+          {results.some(r => r.validity?.thetaMax !== undefined) && (
+            <div className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm bg-red-500/30 border border-dashed border-red-400"></span>
+              <span className="text-slate-400 font-medium whitespace-nowrap">Beyond PRB Θ_max</span>
+            </div>
+          )}
+          {results.some(r => r.alternates) && (
+            <div className="flex items-center gap-1.5">
+              <span className="w-4 border-t border-dashed border-slate-400"></span>
+              <span className="text-slate-400 font-medium whitespace-nowrap">Other equilibria</span>
+            </div>
+          )}
         </div>
       </div>
       
-      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto bg-slate-900 rounded-lg shadow-inner border border-slate-800">
-        <defs>
-          <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orientation="auto">
-            <polygon points="0 0, 10 3.5, 0 7" fill="#64748b" />
-          </marker>
-          <marker id="arrowhead-force" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orientation="auto">
-            <polygon points="0 0, 10 3.5, 0 7" fill="#f87171" />
-          </marker>
-        </defs>
-
-        {/* --- GRID SYSTEM (RENDERED FIRST AS BACKGROUND) --- */}
-        {/* Minor Grid Lines */}
-        <g className="minor-grid" stroke="#1a222e" strokeWidth="0.5">
-          {minor.x.map(x => <line key={`mix-${x}`} x1={scaleX(x)} y1="0" x2={scaleX(x)} y2={height} />)}
-          {minor.y.map(y => <line key={`miy-${y}`} x1="0" y1={scaleY(y)} x2={width} y2={scaleY(y)} />)}
-        </g>
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-auto bg-slate-900 rounded-lg shadow-inner border border-slate-800 touch-none select-none"
+          style={{ cursor: tool === 'pan' ? (panRef.current ? 'grabbing' : 'move') : 'crosshair' }}
+          onPointerDown={startCanvasPointer}
+          onPointerMove={moveDrag}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onPointerLeave={() => setCursor(null)}
+        >
+          <defs>
+            <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orientation="auto">
+              <polygon points="0 0, 10 3.5, 0 7" fill="#64748b" />
+            </marker>
+            <marker id="arrowhead-force" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orientation="auto">
+              <polygon points="0 0, 10 3.5, 0 7" fill="#f87171" />
+            </marker>
+          </defs>
+
+          {/* --- GRID SYSTEM (RENDERED FIRST AS BACKGROUND) --- */}
+          {/* Minor Grid Lines */}
+          <g className="minor-grid" stroke="#1a222e" strokeWidth="0.5">
+            {minor.x.map(x => <line key={`mix-${x}`} x1={scaleX(x)} y1="0" x2={scaleX(x)} y2={height} />)}
+            {minor.y.map(y => <line key={`miy-${y}`} x1="0" y1={scaleY(y)} x2={width} y2={scaleY(y)} />)}
+          </g>
+
+          {/* Major Grid Lines (10%) */}
+          <g className="major-grid" stroke="#252f3f" strokeWidth="1">
+            {major.x.map(x => (
+              <line 
+                key={`mjx-${x}`} 
+                x1={scaleX(x)} y1="0" x2={scaleX(x)} y2={height} 
+                strokeDasharray={x === 0 ? "0" : "4 4"}
+              />
+            ))}
+            {major.y.map(y => (
+              <line 
+                key={`mjy-${y}`} 
+                x1="0" y1={scaleY(y)} x2={width} y2={scaleY(y)} 
+                strokeDasharray={y === 0 ? "0" : "4 4"}
+              />
+            ))}
+          </g>
 
-        {/* Major Grid Lines (10%) */}
-        <g className="major-grid" stroke="#252f3f" strokeWidth="1">
-          {major.x.map(x => (
-            <line 
-              key={`mjx-${x}`} 
-              x1={scaleX(x)} y1="0" x2={scaleX(x)} y2={height} 
-              strokeDasharray={x === 0 ? "0" : "4 4"}
+          {/* Main Origin Axes */}
+          <line x1={scaleX(minX)} y1={scaleY(0)} x2={scaleX(maxX)} y2={scaleY(0)} stroke="#334155" strokeWidth="1.5" />
+          <line x1={scaleX(0)} y1={scaleY(minY)} x2={scaleX(0)} y2={scaleY(maxY)} stroke="#334155" strokeWidth="1.5" />
+
+          {/* Undeflected Beam Reference */}
+          <path 
+            d={undeformedPath} 
+            fill="none"
+            stroke="white" 
+            strokeWidth="2" 
+            strokeDasharray="8,5" 
+            opacity="0.25"
+          />
+
+          {/* Fixed Support Representation */}
+          <rect 
+            x={scaleX(0) - 10} 
+            y={scaleY(length * 0.12)} 
+            width="10" 
+            height={Math.abs(scaleY(-length * 0.12) - scaleY(length * 0.12))} 
+            fill="#475569" 
+            rx="2"
+          />
+        
+          {/* --- PRB VALIDITY LIMITS --- */}
+          {shown.map((res, idx) => <g key={`validity-${idx}`}>{renderInvalidRegion(res)}</g>)}
+
+          {/* --- TIP TRAILS (PLAYBACK) --- */}
+          {frame && showTrail && shown.map((res, idx) => (
+            <polyline
+              key={`trail-${idx}`}
+              points={frames.slice(0, frameIndex + 1).map(f => `${scaleX(f.results[idx].tipX)},${scaleY(f.results[idx].tipY)}`).join(' ')}
+              fill="none"
+              stroke={res.color}
+              strokeWidth="1"
+              strokeDasharray="2,3"
+              opacity="0.8"
             />
           ))}
-          {major.y.map(y => (
-            <line 
-              key={`mjy-${y}`} 
-              x1="0" y1={scaleY(y)} x2={width} y2={scaleY(y)} 
-              strokeDasharray={y === 0 ? "0" : "4 4"}
-            />
+
+          {/* --- BEAM MODELS --- */}
+          {shown.map((res, idx) => (
+            <g key={idx}>
+              {res.alternates?.map((a, k) => renderAlternate(a, res.color, `alt-${k}`))}
+              {!res.label.includes('PRB') && renderTaperBand(res.points, res.color)}
+              {renderPath(res.points, res.color, res.label.includes('PRB'), res.segments)}
+            </g>
           ))}
-        </g>
 
-        {/* Main Origin Axes */}
-        <line x1={scaleX(minX)} y1={scaleY(0)} x2={scaleX(maxX)} y2={scaleY(0)} stroke="#334155" strokeWidth="1.5" />
-        <line x1={scaleX(0)} y1={scaleY(minY)} x2={scaleX(0)} y2={scaleY(maxY)} stroke="#334155" strokeWidth="1.5" />
-
-        {/* Undeflected Beam Reference */}
-        <line 
-          x1={scaleX(0)} 
-          y1={scaleY(0)} 
-          x2={scaleX(length)} 
-          y2={scaleY(0)} 
-          stroke="white" 
-          strokeWidth="2" 
-          strokeDasharray="8,5" 
-          opacity="0.25"
-        />
+          {/* --- LOAD INDICATORS (OVERLAYS) --- */}
+          {anchorModel && F_mag > 1e-12 && (
+            <g>
+              {/* The force vector is drawn pointing TOWARDS the tip. 
+                  So it starts at tip - 60px*dir and ends at tip - 5px*dir. */}
+              <line 
+                x1={sx - 60 * ux} 
+                y1={sy - 60 * uy} 
+                x2={sx - 5 * ux} 
+                y2={sy - 5 * uy} 
+                stroke="#f87171" 
+                strokeWidth="2.5" 
+                markerEnd="url(#arrowhead-force)" 
+              />
+              <text 
+                x={sx - 75 * ux} 
+                y={sy - 75 * uy} 
+                fill="#f87171" 
+                fontSize="12" 
+                fontWeight="bold"
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                F
+              </text>
+            </g>
+          )}
 
-        {/* Fixed Support Representation */}
-        <rect 
-          x={scaleX(0) - 10} 
-          y={scaleY(length * 0.12)} 
-          width="10" 
-          height={Math.abs(scaleY(-length * 0.12) - scaleY(length * 0.12))} 
-          fill="#475569" 
-          rx="2"
-        />
-        
-        {/* --- BEAM MODELS --- */}
-        {results.map((res, idx) => (
-          <g key={idx}>{renderPath(res.points, res.color, res.label.includes('PRB'))}</g>
-        ))}
-
-        {/* --- LOAD INDICATORS (OVERLAYS) --- */}
-        {anchorModel && F_mag > 1e-12 && (
-          <g>
-            {/* The force vector is drawn pointing TOWARDS the tip. 
-                So it starts at tip - 60px*dir and ends at tip - 5px*dir. */}
-            <line 
-              x1={sx - 60 * ux} 
-              y1={sy - 60 * uy} 
-              x2={sx - 5 * ux} 
-              y2={sy - 5 * uy} 
-              stroke="#f87171" 
-              strokeWidth="2.5" 
-              markerEnd="url(#arrowhead-force)" 
-            />
-            <text 
-              x={sx - 75 * ux} 
-              y={sy - 75 * uy} 
-              fill="#f87171" 
-              fontSize="12" 
-              fontWeight="bold"
-              textAnchor="middle"
-              dominantBaseline="middle"
+          {anchorModel && Math.abs(params.M0) > 1e-12 && (
+            <g transform={`translate(${sx}, ${sy}) rotate(${params.M0 > 0 ? 0 : 180})`}>
+              <path 
+                d="M -22,-22 A 30,30 0 1,1 22,-22" 
+                fill="none" 
+                stroke="#64748b" 
+                strokeWidth="2" 
+                strokeDasharray="4,2" 
+                markerEnd="url(#arrowhead)"
+              />
+              <text 
+                x="40" y="-40" 
+                fill="#64748b" fontSize="11" fontWeight="bold" 
+                transform={`rotate(${params.M0 > 0 ? 0 : -180})`}
+              >
+                M₀
+              </text>
+            </g>
+          )}
+
+          {/* --- DRAG HANDLES --- */}
+          {canDrag && F_mag > 1e-12 && (
+            <g style={{ cursor: 'grab' }} onPointerDown={(e) => startDrag('arrow', e)}>
+              <title>Drag to set the force direction and magnitude; Shift-drag to set M₀</title>
+              <line x1={sx - 75 * ux} y1={sy - 75 * uy} x2={sx - 10 * ux} y2={sy - 10 * uy} stroke="transparent" strokeWidth="16" />
+              <circle cx={sx - 60 * ux} cy={sy - 60 * uy} r="5" fill="#f87171" fillOpacity="0.35" stroke="#f87171" strokeWidth="1" />
+            </g>
+          )}
+          {canDrag && (
+            <circle
+              cx={sx}
+              cy={sy}
+              r="7"
+              fill="transparent"
+              stroke="#e2e8f0"
+              strokeOpacity="0.6"
+              strokeWidth="1.5"
+              strokeDasharray="2,2"
+              style={{ cursor: 'grab' }}
+              onPointerDown={(e) => startDrag('tip', e)}
             >
-              F
+              <title>Drag to pull the tip; Shift-drag to set M₀</title>
+            </circle>
+          )}
+          {frozenView && (
+            <text x="15" y={height - 15} fill="#e2e8f0" fontSize="11" fontFamily="monospace">
+              {dragRef.current?.mode === 'moment'
+                ? `M₀ = ${(params.M0 * momentScale).toFixed(3)} ${momentUnit}`
+                : `P = ${(params.P * forceScale).toFixed(3)} ${forceUnit}, nP = ${(params.nP * forceScale).toFixed(3)} ${forceUnit}`}
             </text>
-          </g>
-        )}
+          )}
 
-        {anchorModel && Math.abs(params.M0) > 1e-12 && (
-          <g transform={`translate(${sx}, ${sy}) rotate(${params.M0 > 0 ? 0 : 180})`}>
-            <path 
-              d="M -22,-22 A 30,30 0 1,1 22,-22" 
-              fill="none" 
-              stroke="#64748b" 
-              strokeWidth="2" 
-              strokeDasharray="4,2" 
-              markerEnd="url(#arrowhead)"
-            />
-            <text 
-              x="40" y="-40" 
-              fill="#64748b" fontSize="11" fontWeight="bold" 
-              transform={`rotate(${params.M0 > 0 ? 0 : -180})`}
-            >
-              M₀
+          {/* --- MEASUREMENT --- */}
+          {tool === 'measure' && picks.length > 0 && (
+            <g pointerEvents="none">
+              {measured && (
+                <>
+                  <line
+                    x1={scaleX(picks[0].point.x)} y1={scaleY(picks[0].point.y)}
+                    x2={scaleX(picks[1].point.x)} y2={scaleY(picks[1].point.y)}
+                    stroke="#facc15" strokeWidth="1.5" strokeDasharray="4,3"
+                  />
+                  <text
+                    x={(scaleX(picks[0].point.x) + scaleX(picks[1].point.x)) / 2 + 6}
+                    y={(scaleY(picks[0].point.y) + scaleY(picks[1].point.y)) / 2 - 6}
+                    fill="#facc15" fontSize="11" fontFamily="monospace"
+                  >
+                    {formatLength(Math.hypot(measured.dx, measured.dy))} {lengthUnit}
+                  </text>
+                </>
+              )}
+              {picks.map((pick, i) => (
+                <g key={`pick-${i}`}>
+                  <circle cx={scaleX(pick.point.x)} cy={scaleY(pick.point.y)} r="4" fill="none" stroke="#facc15" strokeWidth="1.5" />
+                  <text x={scaleX(pick.point.x) + 7} y={scaleY(pick.point.y) + 12} fill="#facc15" fontSize="10" fontWeight="bold">
+                    {i === 0 ? 'A' : 'B'}
+                  </text>
+                </g>
+              ))}
+            </g>
+          )}
+          {tool === 'measure' && cursor && (
+            <text x={width - 15} y="22" textAnchor="end" fill="#94a3b8" fontSize="10" fontFamily="monospace">
+              {formatPoint(cursor)} {lengthUnit}
             </text>
-          </g>
-        )}
+          )}
 
-        {/* Scale Legend */}
-        <text x={width - 15} y={height - 15} textAnchor="end" fill="#475569" fontSize="9">
-          True Scale • Grid Step: { (majorStep * (params.L > 1 ? 1 : 1/0.0254)).toFixed(2) }{params.L > 1 ? 'm' : 'in'}
-        </text>
-      </svg>
+          {frame && (
+            <text x="15" y="22" fill="#94a3b8" fontSize="12" fontWeight="bold">
+              Load {(frame.loadFactor * 100).toFixed(0)}%
+            </text>
+          )}
+
+          {/* Scale Legend */}
+          <text x={width - 15} y={height - 15} textAnchor="end" fill="#475569" fontSize="9">
+            True Scale • Grid Step: {parseFloat((majorStep * lengthScale).toPrecision(3))}{lengthUnit}
+            {userView && ` • Zoom ${(viewRangeX / (maxX - minX)).toPrecision(3)}×`}
+          </text>
+        </svg>
+
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          <button onClick={() => setTool('pan')} title="Pan: drag the canvas; scroll to zoom" className={toolButton(tool === 'pan')}>
+            <Hand size={13} />
+          </button>
+          <button
+            onClick={() => { setTool('measure'); setPicks([]); }}
+            title="Measure: click two points (snaps to model points)"
+            className={toolButton(tool === 'measure')}
+          >
+            <Ruler size={13} />
+          </button>
+          <button onClick={() => zoomBy(1 / 1.5)} title="Zoom in" className={toolButton(false)}>
+            <ZoomIn size={13} />
+          </button>
+          <button onClick={() => zoomBy(1.5)} title="Zoom out" className={toolButton(false)}>
+            <ZoomOut size={13} />
+          </button>
+          <button onClick={zoomToTip} title="Zoom to the tips" className={toolButton(false)}>
+            <Crosshair size={13} />
+          </button>
+          <button onClick={() => setUserView(null)} title="Reset view" className={toolButton(false)}>
+            <Maximize2 size={13} />
+          </button>
+        </div>
+      </div>
+
+      {tool === 'measure' && (
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3 text-[11px] font-mono text-slate-400">
+          <div className="space-y-0.5">
+            {picks.length === 0 && <div className="italic font-sans">Click two points to measure; picks snap to nearby model points.</div>}
+            {picks.map((pick, i) => (
+              <div key={i}>
+                <span className="text-yellow-400 font-bold">{i === 0 ? 'A' : 'B'}</span> {formatPoint(pick.point)} {lengthUnit}
+                {pick.label && <span className="text-slate-500"> · {pick.label}</span>}
+              </div>
+            ))}
+            {measured && (
+              <div className="text-slate-200">
+                |AB| = {formatLength(Math.hypot(measured.dx, measured.dy))} {lengthUnit} · Δx = {formatLength(measured.dx)} · Δy = {formatLength(measured.dy)}
+              </div>
+            )}
+          </div>
+          <div className="space-y-0.5">
+            {shown.map(r => (
+              <div key={r.label} className="flex items-center gap-1.5">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: r.color }}></span>
+                <span className="font-sans text-slate-400">{r.label}</span>
+                <span className="text-slate-300">tip {formatPoint({ x: r.tipX, y: r.tipY })} {lengthUnit}, θ₀ {(r.tipAngle * (180 / Math.PI)).toFixed(3)}°</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-[11px] text-slate-400">
+        <button
+          onClick={togglePlay}
+          title={playing ? 'Pause' : 'Animate every model from zero to the applied load'}
+          className="flex items-center justify-center w-7 h-7 bg-blue-600 hover:bg-blue-500 text-white rounded-full transition-colors"
+        >
+          {playing ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={PLAYBACK_FRAMES}
+          step={1}
+          value={frameIndex}
+          onChange={(e) => {
+            setPlaying(false);
+            setProgress(Number(e.target.value) / PLAYBACK_FRAMES);
+          }}
+          className="flex-1 min-w-[8rem] accent-blue-500"
+        />
+        <span className="font-mono text-slate-300 w-10 text-right">{((progress ?? 1) * 100).toFixed(0)}%</span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1.5 py-0.5"
+        >
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={showTrail} onChange={(e) => setShowTrail(e.target.checked)} className="accent-blue-500" />
+          Tip trail
+        </label>
+        {playbackActive && (
+          <button
+            onClick={stopPlayback}
+            title="Leave playback and show the solved shapes"
+            className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-300 font-semibold rounded border border-slate-700 transition-colors"
+          >
+            <SkipForward size={10} /> Solved shapes
+          </button>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,7 +1,12 @@
 
 import React, { useState } from 'react';
-import { BeamParams, BeamModelType, CrossSectionType, UnitSystem, BeamResult } from '../types';
-import { Settings, Play, Info, Square, Circle, Ruler, List, Hash } from 'lucide-react';
+import { BeamParams, BeamModelType, CrossSectionType, UnitSystem, BeamResult, PrbParameters, LoadMode, GravityDirection, Material, SectionDimensions, SectionTaper } from '../types';
+import PrbParameterEditor from './PrbParameterEditor';
+import MaterialLibrary from './MaterialLibrary';
+import SectionPreview from './SectionPreview';
+import TaperEditor from './TaperEditor';
+import { flexuralPivotError } from '../services/beamSolver';
+import { Settings, Play, Info, Ruler, List, Hash } from 'lucide-react';
 
 interface ControlsProps {
   params: BeamParams;
@@ -10,13 +15,54 @@ interface ControlsProps {
   setSelectedModels: (m: BeamModelType[]) => void;
   sectionType: CrossSectionType;
   setSectionType: (t: CrossSectionType) => void;
-  dimensions: { width: number; height: number; diameter: number };
-  setDimensions: (d: { width: number; height: number; diameter: number }) => void;
+  dimensions: SectionDimensions;
+  setDimensions: (d: SectionDimensions) => void;
+  taper: SectionTaper;
+  setTaper: (t: SectionTaper) => void;
   unitSystem: UnitSystem;
   onToggleUnitSystem: () => void;
   results: BeamResult[];
+  customPrb: PrbParameters;
+  setCustomPrb: (p: PrbParameters) => void;
+  material: Material;
+  setMaterial: (m: Material) => void;
+  customMaterials: Material[];
+  setCustomMaterials: (m: Material[]) => void;
 }
 
+// Dimensions each section is defined by, in input order
+const SECTION_FIELDS: Record<CrossSectionType, (keyof SectionDimensions)[]> = {
+  [CrossSectionType.RECTANGULAR]: ['width', 'height'],
+  [CrossSectionType.CIRCULAR]: ['diameter'],
+  [CrossSectionType.HOLLOW_TUBE]: ['diameter', 'wall'],
+  [CrossSectionType.RECT_TUBE]: ['width', 'height', 'wall'],
+  [CrossSectionType.I_BEAM]: ['width', 'height', 'flange', 'web'],
+  [CrossSectionType.T_SECTION]: ['width', 'height', 'flange', 'web'],
+  [CrossSectionType.ELLIPTICAL]: ['width', 'height']
+};
+
+const DIMENSION_LABELS: Record<keyof SectionDimensions, string> = {
+  width: 'Width (b)',
+  height: 'Height (h)',
+  diameter: 'Diameter (d)',
+  wall: 'Wall (t)',
+  flange: 'Flange (t_f)',
+  web: 'Web (t_w)'
+};
+
+const SECTION_SHORT_NAMES: Record<CrossSectionType, string> = {
+  [CrossSectionType.RECTANGULAR]: 'Rect',
+  [CrossSectionType.CIRCULAR]: 'Circ',
+  [CrossSectionType.HOLLOW_TUBE]: 'Tube',
+  [CrossSectionType.RECT_TUBE]: 'Box',
+  [CrossSectionType.I_BEAM]: 'I',
+  [CrossSectionType.T_SECTION]: 'T',
+  [CrossSectionType.ELLIPTICAL]: 'Ellipse'
+};
+
+// Nominal proportions for the section buttons, so every icon is recognisable
+const ICON_DIMENSIONS: SectionDimensions = { width: 1, height: 0.8, diameter: 1, wall: 0.2, flange: 0.2, web: 0.2 };
+
 const Controls: React.FC<ControlsProps> = ({ 
   params, 
   setParams, 
@@ -26,16 +72,29 @@ const Controls: React.FC<ControlsProps> = ({
   setSectionType,
   dimensions,
   setDimensions,
+  taper,
+  setTaper,
   unitSystem,
   onToggleUnitSystem,
-  results
+  results,
+  customPrb,
+  setCustomPrb,
+  material,
+  setMaterial,
+  customMaterials,
+  setCustomMaterials
 }) => {
   const [activeTab, setActiveTab] = useState<'selection' | 'parameters'>('selection');
   const isMetric = unitSystem === UnitSystem.METRIC;
+  // Pivot geometry the solver would reject stays here, flagged, instead of reaching the model
+  const [rejectedGeometry, setRejectedGeometry] = useState<Partial<Record<'flexLength' | 'rigidLength', string>>>({});
 
   const handleNumericChange = (name: string, value: string) => {
     const val = parseFloat(value);
-    if (isNaN(val)) return;
+    if (isNaN(val)) {
+      if (name === 'flexLength' || name === 'rigidLength') setRejectedGeometry(prev => ({ ...prev, [name]: value }));
+      return;
+    }
 
     if (name === 'L') {
       setParams({ ...params, L: isMetric ? val : val * 0.0254 });
@@ -45,9 +104,28 @@ const Controls: React.FC<ControlsProps> = ({
       setParams({ ...params, nP: isMetric ? val : val * 4.44822 });
     } else if (name === 'M0') {
       setParams({ ...params, M0: isMetric ? val : val * 0.112985 });
+    } else if (name === 'flexLength' || name === 'rigidLength') {
+      const next = { ...params, [name]: isMetric ? val : val * 0.0254 };
+      if (flexuralPivotError(next.flexLength, next.rigidLength)) {
+        setRejectedGeometry(prev => ({ ...prev, [name]: value }));
+        return;
+      }
+      setRejectedGeometry(({ [name]: _, ...rest }) => rest);
+      setParams(next);
+    } else if (name === 'q') {
+      setParams({ ...params, q: isMetric ? val : val * 175.127 });
+    } else if (name === 'density') {
+      setParams({ ...params, density: isMetric ? val : val * 27679.9 });
+    } else if (name === 'kappa0') {
+      setParams({ ...params, kappa0: isMetric ? val : val / 0.0254 });
     }
   };
 
+  const handleMaterialSelect = (m: Material) => {
+    setMaterial(m);
+    setParams({ ...params, E: m.E, density: m.density });
+  };
+
   const handleDimChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     const val = parseFloat(value);
@@ -73,6 +151,11 @@ const Controls: React.FC<ControlsProps> = ({
   const uiNP = isMetric ? params.nP : params.nP / 4.44822;
   const uiM0 = isMetric ? params.M0 : params.M0 / 0.112985;
   const uiE = isMetric ? params.E / 1e9 : params.E / 6.89476e9;
+  const uiFlexLength = isMetric ? params.flexLength : params.flexLength / 0.0254;
+  const uiRigidLength = isMetric ? params.rigidLength : params.rigidLength / 0.0254;
+  const uiQ = isMetric ? params.q : params.q / 175.127;
+  const uiDensity = isMetric ? params.density : params.density / 27679.9;
+  const uiKappa0 = isMetric ? params.kappa0 : params.kappa0 * 0.0254;
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200 h-full overflow-y-auto max-h-[calc(100vh-8rem)]">
@@ -94,79 +177,63 @@ const Controls: React.FC<ControlsProps> = ({
         <section>
           <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4">Cross Section</h3>
           
-          <div className="flex gap-2 mb-4">
-            <button
-              onClick={() => setSectionType(CrossSectionType.RECTANGULAR)}
-              className={`flex-1 py-2 px-3 rounded-md border flex items-center justify-center gap-2 text-sm font-medium transition-colors ${
-                sectionType === CrossSectionType.RECTANGULAR 
-                  ? 'bg-blue-600 border-blue-600 text-white' 
-                  : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
-              }`}
-            >
-              <Square size={16} /> Rect
-            </button>
-            <button
-              onClick={() => setSectionType(CrossSectionType.CIRCULAR)}
-              className={`flex-1 py-2 px-3 rounded-md border flex items-center justify-center gap-2 text-sm font-medium transition-colors ${
-                sectionType === CrossSectionType.CIRCULAR 
-                  ? 'bg-blue-600 border-blue-600 text-white' 
-                  : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
-              }`}
-            >
-              <Circle size={16} /> Circ
-            </button>
+          <div className="grid grid-cols-4 gap-1.5 mb-4">
+            {Object.values(CrossSectionType).map(type => (
+              <button
+                key={type}
+                onClick={() => setSectionType(type)}
+                title={type}
+                className={`py-1.5 px-1 rounded-md border flex flex-col items-center gap-0.5 text-[10px] font-medium transition-colors ${
+                  sectionType === type 
+                    ? 'bg-blue-600 border-blue-600 text-white' 
+                    : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                <SectionPreview type={type} dims={ICON_DIMENSIONS} size={22} color={sectionType === type ? '#ffffff' : '#475569'} />
+                {SECTION_SHORT_NAMES[type]}
+              </button>
+            ))}
           </div>
 
           <div className="grid grid-cols-2 gap-4 bg-slate-50 p-3 rounded-lg border border-slate-100 mb-4">
-            {sectionType === CrossSectionType.RECTANGULAR ? (
-              <>
-                <div>
-                  <label className="block text-xs font-medium text-slate-600 mb-1">Width (b) [{isMetric ? 'mm' : 'in'}]</label>
-                  <input 
-                    type="number" 
-                    name="width" 
-                    value={dimensions.width} 
-                    onChange={handleDimChange} 
-                    onFocus={onInputFocus}
-                    className="w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono" 
-                    step="any"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-slate-600 mb-1">Height (h) [{isMetric ? 'mm' : 'in'}]</label>
-                  <input 
-                    type="number" 
-                    name="height" 
-                    value={dimensions.height} 
-                    onChange={handleDimChange} 
-                    onFocus={onInputFocus}
-                    className="w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono" 
-                    step="any"
-                  />
-                </div>
-              </>
-            ) : (
-              <div className="col-span-2">
-                <label className="block text-xs font-medium text-slate-600 mb-1">Diameter (d) [{isMetric ? 'mm' : 'in'}]</label>
+            {SECTION_FIELDS[sectionType].map(field => (
+              <div key={field}>
+                <label className="block text-xs font-medium text-slate-600 mb-1">{DIMENSION_LABELS[field]} [{isMetric ? 'mm' : 'in'}]</label>
                 <input 
                   type="number" 
-                  name="diameter" 
-                  value={dimensions.diameter} 
+                  name={field} 
+                  value={dimensions[field]} 
                   onChange={handleDimChange} 
                   onFocus={onInputFocus}
                   className="w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono" 
                   step="any"
                 />
               </div>
-            )}
-            <div className="col-span-2 pt-2 border-t border-slate-200">
-               <div className="flex justify-between text-[10px] text-slate-500 font-mono">
-                  <span>I: {isMetric ? (params.I * 1e12).toFixed(2) : (params.I / 1.746e-7).toFixed(6)} {isMetric ? 'mm⁴' : 'in⁴'}</span>
-                  <span>c: {isMetric ? (params.c * 1000).toFixed(2) : (params.c / 0.0254).toFixed(4)} {isMetric ? 'mm' : 'in'}</span>
+            ))}
+            <div className="col-span-2 pt-2 border-t border-slate-200 flex items-center gap-3">
+               <div className="bg-white rounded border border-slate-200 p-1">
+                  <SectionPreview type={sectionType} dims={dimensions} size={56} />
+               </div>
+               <div className="flex-1 space-y-0.5 text-[10px] text-slate-500 font-mono">
+                  <div>I: {isMetric ? (params.I * 1e12).toFixed(2) : (params.I / Math.pow(0.0254, 4)).toFixed(6)} {isMetric ? 'mm⁴' : 'in⁴'}</div>
+                  <div>c: {isMetric ? (params.c * 1000).toFixed(2) : (params.c / 0.0254).toFixed(4)} {isMetric ? 'mm' : 'in'}</div>
+                  <div>A: {isMetric ? (params.A * 1e6).toFixed(2) : (params.A / Math.pow(0.0254, 2)).toFixed(5)} {isMetric ? 'mm²' : 'in²'}</div>
                </div>
             </div>
           </div>
 
+          <TaperEditor taper={taper} setTaper={setTaper} profile={params.profile} />
+
+          <MaterialLibrary
+            params={params}
+            material={material}
+            setMaterial={setMaterial}
+            onSelect={handleMaterialSelect}
+            customMaterials={customMaterials}
+            setCustomMaterials={setCustomMaterials}
+            unitSystem={unitSystem}
+          />
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-xs font-medium text-slate-600 mb-1">Length (L) [{isMetric ? 'm' : 'in'}]</label>
@@ -192,11 +259,83 @@ const Controls: React.FC<ControlsProps> = ({
                 step="any"
               />
             </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-600 mb-1">Initial Curvature (κ₀) [{isMetric ? '1/m' : '1/in'}]</label>
+              <input 
+                type="number" 
+                name="kappa0" 
+                value={Number(uiKappa0.toFixed(4))} 
+                onChange={(e) => handleNumericChange('kappa0', e.target.value)} 
+                onFocus={onInputFocus}
+                className="w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 outline-none transition-shadow font-mono" 
+                step="any"
+              />
+              <div className="flex justify-between text-[10px] text-slate-500 font-mono mt-1">
+                <span>κ₀L: {(params.kappa0 * params.L).toFixed(3)}</span>
+                <span>R_i: {params.kappa0 !== 0 ? (isMetric ? (1 / params.kappa0).toFixed(3) : (1 / params.kappa0 / 0.0254).toFixed(2)) : '∞'} {isMetric ? 'm' : 'in'}</span>
+              </div>
+            </div>
           </div>
+
+          {selectedModels.includes(BeamModelType.PRB_1R_FLEXURAL_PIVOT) && (
+            <div className="grid grid-cols-2 gap-4 bg-slate-50 p-3 rounded-lg border border-slate-100 mt-4">
+              <div className="col-span-2 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Flexural Pivot Geometry</div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Flexure (l) [{isMetric ? 'm' : 'in'}]</label>
+                <input 
+                  type="number" 
+                  name="flexLength" 
+                  value={rejectedGeometry.flexLength ?? Number(uiFlexLength.toFixed(4))} 
+                  onChange={(e) => handleNumericChange('flexLength', e.target.value)} 
+                  onFocus={onInputFocus}
+                  onBlur={() => setRejectedGeometry(({ flexLength: _, ...rest }) => rest)}
+                  className={`w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono ${rejectedGeometry.flexLength !== undefined ? 'border-red-400 text-red-600' : ''}`} 
+                  min="0"
+                  step="any"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Rigid Link [{isMetric ? 'm' : 'in'}]</label>
+                <input 
+                  type="number" 
+                  name="rigidLength" 
+                  value={rejectedGeometry.rigidLength ?? Number(uiRigidLength.toFixed(4))} 
+                  onChange={(e) => handleNumericChange('rigidLength', e.target.value)} 
+                  onFocus={onInputFocus}
+                  onBlur={() => setRejectedGeometry(({ rigidLength: _, ...rest }) => rest)}
+                  className={`w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono ${rejectedGeometry.rigidLength !== undefined ? 'border-red-400 text-red-600' : ''}`} 
+                  min="0"
+                  step="any"
+                />
+              </div>
+              {(Object.keys(rejectedGeometry).length > 0 || flexuralPivotError(params.flexLength, params.rigidLength)) && (
+                <p className="col-span-2 -mt-2 text-[10px] text-red-600">
+                  {Object.keys(rejectedGeometry).length > 0
+                    ? 'The flexure must be longer than zero and the rigid link not negative; the previous value is kept.'
+                    : flexuralPivotError(params.flexLength, params.rigidLength)}
+                </p>
+              )}
+            </div>
+          )}
         </section>
 
         <section>
           <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-4">Loading</h3>
+          <div className="flex gap-2 mb-4">
+            {Object.values(LoadMode).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setParams({ ...params, loadMode: mode })}
+                className={`flex-1 py-2 px-3 rounded-md border text-sm font-medium transition-colors ${
+                  params.loadMode === mode 
+                    ? 'bg-blue-600 border-blue-600 text-white' 
+                    : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
           <div className="space-y-4">
             <div>
               <div className="flex justify-between items-center mb-1">
@@ -251,6 +390,56 @@ const Controls: React.FC<ControlsProps> = ({
               </div>
               <input type="range" name="M0" min={isMetric ? -20 : -175} max={isMetric ? 20 : 175} step={0.01} value={uiM0} onChange={(e) => handleNumericChange('M0', e.target.value)} className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600" />
             </div>
+
+            <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-3">
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Distributed Loads (Nonlinear & Linear)</div>
+              <div className="flex justify-between items-center">
+                <label className="text-xs font-medium text-slate-600">Uniform Load (q, +Y)</label>
+                <div className="flex items-center gap-1">
+                  <input 
+                    type="number" 
+                    value={Number(uiQ.toFixed(4))} 
+                    onChange={(e) => handleNumericChange('q', e.target.value)}
+                    onFocus={onInputFocus}
+                    className="w-20 px-1 py-0.5 text-right text-xs border rounded focus:ring-1 focus:ring-blue-500 outline-none font-mono"
+                    step="any"
+                  />
+                  <span className="text-[10px] text-slate-400 font-bold">{isMetric ? 'N/m' : 'lbf/in'}</span>
+                </div>
+              </div>
+              <div className="flex justify-between items-center">
+                <label className="text-xs font-medium text-slate-600">Density (ρ)</label>
+                <div className="flex items-center gap-1">
+                  <input 
+                    type="number" 
+                    value={Number(uiDensity.toPrecision(5))} 
+                    onChange={(e) => handleNumericChange('density', e.target.value)}
+                    onFocus={onInputFocus}
+                    className="w-20 px-1 py-0.5 text-right text-xs border rounded focus:ring-1 focus:ring-blue-500 outline-none font-mono"
+                    step="any"
+                  />
+                  <span className="text-[10px] text-slate-400 font-bold">{isMetric ? 'kg/m³' : 'lb/in³'}</span>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Self-Weight Direction (g)</label>
+                <div className="flex gap-1">
+                  {Object.values(GravityDirection).map(dir => (
+                    <button
+                      key={dir}
+                      onClick={() => setParams({ ...params, gravity: dir })}
+                      className={`flex-1 py-1 rounded border text-[11px] font-semibold transition-colors ${
+                        params.gravity === dir 
+                          ? 'bg-blue-600 border-blue-600 text-white' 
+                          : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {dir}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
           </div>
         </section>
 
@@ -288,6 +477,9 @@ const Controls: React.FC<ControlsProps> = ({
                   </div>
                 </button>
               ))}
+              {selectedModels.includes(BeamModelType.PRB_NR_CUSTOM) && (
+                <PrbParameterEditor prb={customPrb} setPrb={setCustomPrb} />
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -332,7 +524,7 @@ const Controls: React.FC<ControlsProps> = ({
                       {r.prbParams?.links && (
                         <div className="col-span-1 pt-1 mt-1 border-t border-slate-200 border-dashed">
                           <div className="flex justify-between mb-1">
-                            <span className="text-slate-500 italic">Link Ratios (g0-g3)</span>
+                            <span className="text-slate-500 italic">Link Ratios (g0-g{r.prbParams.links.length - 1})</span>
                             <span className="font-mono text-[9px] text-blue-700">[{r.prbParams.links.join(', ')}]</span>
                           </div>
                         </div>
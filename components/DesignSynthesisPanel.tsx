@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BeamParams, DesignCandidate, DesignRanking, DesignSynthesisOptions, DesignTarget, Material, UnitSystem } from '../types';
+import { designGrid, designRangeError, evaluateDesign, rankDesigns } from '../services/designSynthesis';
+import { factorOfSafety } from '../services/materials';
+import { Wand2, Check, Square } from 'lucide-react';
+
+interface DesignSynthesisPanelProps {
+  params: BeamParams;
+  material: Material;
+  unitSystem: UnitSystem;
+  onApply: (design: DesignCandidate) => void;
+}
+
+type StressLimit = 'stress' | 'safetyFactor';
+
+// Candidates are evaluated in slices of about this many milliseconds, so the page stays responsive
+const SEARCH_SLICE_MS = 50;
+
+const DesignSynthesisPanel: React.FC<DesignSynthesisPanelProps> = ({ params, material, unitSystem, onApply }) => {
+  const isMetric = unitSystem === UnitSystem.METRIC;
+  // Lengths in m or in; section dimensions in mm or in, as in the section inputs
+  const lengthScale = isMetric ? 1 : 1 / 0.0254;
+  const lengthUnit = isMetric ? 'm' : 'in';
+  const dimScale = isMetric ? 1000 : 1 / 0.0254;
+  const dimUnit = isMetric ? 'mm' : 'in';
+  const stressScale = isMetric ? 1e-6 : 1 / 6.89476e6;
+  const stressUnit = isMetric ? 'MPa' : 'ksi';
+
+  const [options, setOptions] = useState<Omit<DesignSynthesisOptions, 'allowableStress'>>({
+    target: DesignTarget.DEFLECTION,
+    targetValue: params.L * 0.2,
+    minLength: params.L * 0.25,
+    maxLength: params.L,
+    minThickness: 0.25e-3,
+    maxThickness: 2e-3,
+    minWidth: 5e-3,
+    maxWidth: 30e-3,
+    steps: 4,
+    ranking: DesignRanking.STIFFEST
+  });
+  const [limitType, setLimitType] = useState<StressLimit>('safetyFactor');
+  const [limitValue, setLimitValue] = useState(1.5); // FoS, or stress in display units
+  const [designs, setDesigns] = useState<DesignCandidate[] | null>(null);
+  // Candidates evaluated so far while a search runs; bumping searchId stops it
+  const [searchProgress, setSearchProgress] = useState<{ done: number; total: number } | null>(null);
+  const searchId = useRef(0);
+
+  useEffect(() => () => { searchId.current++; }, []);
+
+  const allowableStress = limitType === 'safetyFactor' ? material.yieldStrength / limitValue : limitValue / stressScale;
+  const isRotation = options.target === DesignTarget.ROTATION;
+
+  const fields: { name: keyof DesignSynthesisOptions; label: string; scale: number }[] = [
+    { name: 'minLength', label: `L min [${lengthUnit}]`, scale: lengthScale },
+    { name: 'maxLength', label: `L max [${lengthUnit}]`, scale: lengthScale },
+    { name: 'minThickness', label: `h min [${dimUnit}]`, scale: dimScale },
+    { name: 'maxThickness', label: `h max [${dimUnit}]`, scale: dimScale },
+    { name: 'minWidth', label: `b min [${dimUnit}]`, scale: dimScale },
+    { name: 'maxWidth', label: `b max [${dimUnit}]`, scale: dimScale }
+  ];
+  const targetScale = isRotation ? 180 / Math.PI : lengthScale;
+
+  const handleOptionChange = (name: keyof DesignSynthesisOptions, value: string, scale: number) => {
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    if (name === 'steps') {
+      setOptions({ ...options, steps: Math.max(1, Math.min(8, Math.round(val))) });
+    } else {
+      setOptions({ ...options, [name]: val / scale });
+    }
+  };
+
+  const setLimit = (type: StressLimit) => {
+    setLimitType(type);
+    // Carry the current allowable stress across the switch
+    setLimitValue(type === 'safetyFactor'
+      ? Number((material.yieldStrength / allowableStress).toFixed(3))
+      : Number((allowableStress * stressScale).toFixed(2)));
+  };
+
+  const runSearch = () => {
+    const id = ++searchId.current;
+    const searchOptions = { ...options, allowableStress };
+    const points = designGrid(params, searchOptions);
+    const candidates: DesignCandidate[] = [];
+    setSearchProgress({ done: 0, total: points.length });
+
+    // Evaluate a slice of the grid, then yield to the browser before the next one
+    const step = () => {
+      if (searchId.current !== id) return;
+      const start = performance.now();
+      while (candidates.length < points.length && performance.now() - start < SEARCH_SLICE_MS) {
+        candidates.push(evaluateDesign(params, searchOptions, points[candidates.length]));
+      }
+      if (candidates.length < points.length) {
+        setSearchProgress({ done: candidates.length, total: points.length });
+        setTimeout(step, 0);
+        return;
+      }
+      setDesigns(rankDesigns(candidates, searchOptions.ranking));
+      setSearchProgress(null);
+    };
+    setTimeout(step, 0);
+  };
+
+  const stopSearch = () => {
+    searchId.current++;
+    setSearchProgress(null);
+  };
+
+  const onInputFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  const inputClass = "w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono";
+  const toggleClass = (active: boolean) => `flex-1 px-3 py-1 text-xs font-semibold rounded-md transition-all ${active ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`;
+  const feasible = designs?.filter(d => d.feasible) ?? [];
+  const hasLoad = params.P !== 0 || params.nP !== 0 || params.M0 !== 0;
+  const rangeError = designRangeError({ ...options, allowableStress });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+        <Wand2 size={18} className="text-blue-600" />
+        Design Synthesis (Rectangular Cantilever)
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Requirement</label>
+            <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg mb-2">
+              {Object.values(DesignTarget).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setOptions({ ...options, target: t, targetValue: t === DesignTarget.ROTATION ? Math.PI / 6 : params.L * 0.2 })}
+                  className={toggleClass(options.target === t)}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={Number((options.targetValue * targetScale).toFixed(4))}
+                onChange={(e) => handleOptionChange('targetValue', e.target.value, targetScale)}
+                onFocus={onInputFocus}
+                className={inputClass}
+                step="any"
+              />
+              <span className="text-xs text-slate-500 font-bold w-8">{isRotation ? '°' : lengthUnit}</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Stress Limit ({material.name})</label>
+            <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg mb-2">
+              <button onClick={() => setLimit('safetyFactor')} className={toggleClass(limitType === 'safetyFactor')}>Min FoS</button>
+              <button onClick={() => setLimit('stress')} className={toggleClass(limitType === 'stress')}>Max σ</button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={limitValue}
+                onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) setLimitValue(v); }}
+                onFocus={onInputFocus}
+                className={inputClass}
+                step="any"
+              />
+              <span className="text-xs text-slate-500 font-bold w-8">{limitType === 'safetyFactor' ? '' : stressUnit}</span>
+            </div>
+            <div className="text-[10px] text-slate-500 font-mono mt-1">σ_allow: {(allowableStress * stressScale).toFixed(1)} {stressUnit}</div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 bg-slate-50 p-3 rounded-lg border border-slate-100">
+            {fields.map(f => (
+              <div key={f.name}>
+                <label className="block text-xs font-medium text-slate-600 mb-1">{f.label}</label>
+                <input
+                  type="number"
+                  value={Number(((options[f.name] as number) * f.scale).toPrecision(4))}
+                  onChange={(e) => handleOptionChange(f.name, e.target.value, f.scale)}
+                  onFocus={onInputFocus}
+                  className={inputClass}
+                  step="any"
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Grid Points</label>
+              <input type="number" value={options.steps} onChange={(e) => handleOptionChange('steps', e.target.value, 1)} onFocus={onInputFocus} className={inputClass} step="1" />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Rank By</label>
+              <select
+                value={options.ranking}
+                onChange={(e) => setOptions({ ...options, ranking: e.target.value as DesignRanking })}
+                className="w-full px-2 py-1.5 text-sm border rounded-md bg-white focus:ring-1 focus:ring-blue-500 outline-none"
+              >
+                {Object.values(DesignRanking).map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {searchProgress ? (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${searchProgress.total > 0 ? (100 * searchProgress.done) / searchProgress.total : 0}%` }}
+                  />
+                </div>
+                <button
+                  onClick={stopSearch}
+                  className="flex items-center gap-1 px-2.5 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-semibold rounded-md transition-colors"
+                >
+                  <Square size={10} /> Stop
+                </button>
+              </div>
+              <div className="text-[10px] text-slate-500 font-mono">Searching… {searchProgress.done} of {searchProgress.total} designs</div>
+            </div>
+          ) : (
+            <button
+              onClick={runSearch}
+              disabled={!hasLoad || !!rangeError}
+              className="w-full py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              {`Search ${Math.pow(options.steps, 3)} Designs`}
+            </button>
+          )}
+          {rangeError && <div className="text-[11px] text-red-600">{rangeError}</div>}
+          {!hasLoad && <div className="text-[11px] text-amber-600">Set a load (P, nP or M₀) first: the search scales it to meet the requirement.</div>}
+        </div>
+
+        <div>
+          {designs ? (
+            <div className="overflow-x-auto">
+              <div className="text-xs text-slate-500 mb-2">{feasible.length} of {designs.length} designs meet the requirement.</div>
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500 border-b">
+                  <tr>
+                    <th className="pb-2 font-semibold">#</th>
+                    <th className="pb-2 font-semibold text-right">L ({lengthUnit})</th>
+                    <th className="pb-2 font-semibold text-right">h ({dimUnit})</th>
+                    <th className="pb-2 font-semibold text-right">b ({dimUnit})</th>
+                    <th className="pb-2 font-semibold text-right">σ ({stressUnit})</th>
+                    <th className="pb-2 font-semibold text-right">FoS</th>
+                    <th className="pb-2 font-semibold text-right">k</th>
+                    <th className="pb-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {feasible.slice(0, 10).map((d, i) => (
+                    <tr key={i} className="hover:bg-slate-50">
+                      <td className="py-2 text-slate-400">{i + 1}</td>
+                      <td className="py-2 text-right font-mono text-slate-600">{(d.L * lengthScale).toFixed(3)}</td>
+                      <td className="py-2 text-right font-mono text-slate-600">{(d.h * dimScale).toFixed(isMetric ? 3 : 4)}</td>
+                      <td className="py-2 text-right font-mono text-slate-600">{(d.b * dimScale).toFixed(isMetric ? 2 : 3)}</td>
+                      <td className="py-2 text-right font-mono text-slate-600">{(d.maxStress * stressScale).toFixed(1)}</td>
+                      <td className="py-2 text-right font-mono text-slate-600">{factorOfSafety(d.maxStress, material.yieldStrength).toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono text-blue-600">{d.stiffness.toPrecision(3)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => onApply(d)}
+                          title="Load this geometry and the loads that reach the requirement"
+                          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-green-100 text-green-700 hover:bg-green-200"
+                        >
+                          <Check size={10} /> Use
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {feasible.length === 0 && (
+                <div className="py-6 text-center text-xs text-slate-400 italic">No design meets the requirement within the stress limit. Widen the limits or relax the target.</div>
+              )}
+            </div>
+          ) : (
+            <div className="h-full min-h-[12rem] flex items-center justify-center text-slate-400 text-xs italic">
+              Run a search to see ranked designs.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 pt-4 border-t text-xs text-slate-400 italic leading-relaxed">
+        *Each design scales the applied P, nP and M₀ until the nonlinear tip {isRotation ? 'rotation' : 'deflection'} meets the requirement, then checks the peak bending stress. k is the actuation {params.P !== 0 || params.nP !== 0 ? 'force' : 'moment'} per unit {isRotation ? 'rotation (per rad)' : 'deflection (SI)'}.
+      </div>
+    </div>
+  );
+};
+
+export default DesignSynthesisPanel;
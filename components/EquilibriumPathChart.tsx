@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { EquilibriumPath, EquilibriumPathPoint, UnitSystem } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceDot, ReferenceLine } from 'recharts';
+import { GitBranch } from 'lucide-react';
+
+interface EquilibriumPathChartProps {
+  paths: EquilibriumPath[];
+  unitSystem: UnitSystem;
+}
+
+type PathQuantity = 'tipX' | 'tipY' | 'tipAngle';
+
+/**
+ * Splits a branch into runs of equal stability so unstable stretches can be dashed.
+ * Neighbouring runs share their end point so the curve stays connected.
+ */
+const stabilityRuns = (branch: EquilibriumPathPoint[]) => {
+  const runs: { stable?: boolean; points: EquilibriumPathPoint[] }[] = [];
+  branch.forEach((p, i) => {
+    const run = runs[runs.length - 1];
+    if (run && run.stable === p.stable) {
+      run.points.push(p);
+    } else {
+      runs.push({ stable: p.stable, points: i > 0 ? [branch[i - 1], p] : [p] });
+    }
+  });
+  return runs;
+};
+
+const EquilibriumPathChart: React.FC<EquilibriumPathChartProps> = ({ paths, unitSystem }) => {
+  const [quantity, setQuantity] = useState<PathQuantity>('tipY');
+  const isMetric = unitSystem === UnitSystem.METRIC;
+  const lengthScale = isMetric ? 1 : 1 / 0.0254;
+  const lengthUnit = isMetric ? 'm' : 'in';
+
+  const value = (p: { tipX: number; tipY: number; tipAngle: number }) =>
+    parseFloat((quantity === 'tipAngle' ? p.tipAngle * (180 / Math.PI) : p[quantity] * lengthScale).toFixed(5));
+  const load = (lambda: number) => parseFloat((lambda * 100).toFixed(2));
+
+  const quantityLabels: Record<PathQuantity, string> = {
+    tipX: `Tip X (${lengthUnit})`,
+    tipY: `Tip Y (${lengthUnit})`,
+    tipAngle: 'θ₀ (°)'
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <GitBranch size={18} className="text-blue-600" />
+          Equilibrium Paths & Buckling
+        </h3>
+        <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg">
+          {(Object.keys(quantityLabels) as PathQuantity[]).map(q => (
+            <button
+              key={q}
+              onClick={() => setQuantity(q)}
+              className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${quantity === q ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {quantityLabels[q]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {paths.length > 0 ? (
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 10, right: 30, left: 0, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="x"
+                type="number"
+                domain={['auto', 'auto']}
+                fontSize={10}
+                allowDuplicatedCategory={false}
+                label={{ value: quantityLabels[quantity], position: 'insideBottom', offset: -5, fontSize: 10 }}
+              />
+              <YAxis dataKey="load" type="number" domain={['auto', 'auto']} fontSize={10} unit="%" />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+                itemStyle={{ color: '#94a3b8' }}
+                formatter={(v: number) => [`${v}%`, 'Load']}
+                labelFormatter={(v) => `${quantityLabels[quantity]}: ${v}`}
+              />
+              <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="4 4" />
+              {paths.flatMap(path => path.branches.flatMap((branch, b) => stabilityRuns(branch).map((run, k) => (
+                <Line
+                  key={`${path.label}-${b}-${k}`}
+                  data={run.points.map(p => ({ x: value(p), load: load(p.lambda) }))}
+                  type="linear"
+                  dataKey="load"
+                  name={path.label}
+                  stroke={path.color}
+                  strokeWidth={b === 0 ? 2 : 1.5}
+                  strokeDasharray={run.stable === false ? '5 4' : undefined}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))))}
+              {paths.flatMap(path => path.branches.flatMap((branch, b) => branch
+                .filter(p => p.limit || p.bifurcation)
+                .map((p, k) => (
+                  <ReferenceDot
+                    key={`${path.label}-${b}-critical-${k}`}
+                    x={value(p)}
+                    y={load(p.lambda)}
+                    r={5}
+                    fill={p.bifurcation ? '#fff' : path.color}
+                    stroke={path.color}
+                    strokeWidth={2}
+                  />
+                ))))}
+              {paths.flatMap(path => path.solutions.map((s, k) => (
+                <ReferenceDot
+                  key={`${path.label}-solution-${k}`}
+                  x={value(s)}
+                  y={100}
+                  r={4}
+                  fill={s.stable === false ? '#fff' : path.color}
+                  stroke="#1e293b"
+                  strokeWidth={1.5}
+                />
+              )))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-24 flex items-center justify-center text-slate-400 text-xs italic">
+          Select a nonlinear model to trace its equilibrium path.
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t grid grid-cols-1 md:grid-cols-2 gap-2 text-[11px]">
+        {paths.map(path => {
+          const critical = path.branches[0]?.find(p => p.limit || p.bifurcation);
+          return (
+            <div key={path.label} className="flex items-center justify-between gap-2 px-2 py-1 bg-slate-50 rounded border border-slate-100">
+              <span className="flex items-center gap-1.5 text-slate-600">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: path.color }} />
+                {path.label}
+              </span>
+              <span className="font-mono text-slate-700">
+                {path.solutions.length} {path.solutions.length === 1 ? 'equilibrium' : 'equilibria'}
+                {critical && ` · ${critical.bifurcation ? 'buckles' : 'snaps'} at ${(critical.lambda * 100).toFixed(1)}%`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-3 text-xs text-slate-400 italic leading-relaxed">
+        *Paths traced by arc-length continuation of the proportional load (100% = applied P, nP, M₀ and distributed load). Dashed stretches are unstable. Large hollow markers are bifurcations and large filled ones limit points; the small dark-rimmed dots on the 100% line are the equilibria at the applied load, hollow when unstable.
+      </div>
+    </div>
+  );
+};
+
+export default EquilibriumPathChart;
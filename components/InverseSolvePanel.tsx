@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { BeamParams, BeamModelType, BeamResult, InverseResult, PrbParameters, TipTarget, UnitSystem } from '../types';
+import { solveInverse } from '../services/inverseSolver';
+import { Crosshair, Check, AlertTriangle } from 'lucide-react';
+
+interface InverseSolvePanelProps {
+  params: BeamParams;
+  selectedModels: BeamModelType[];
+  customPrb: PrbParameters;
+  results: BeamResult[];
+  unitSystem: UnitSystem;
+  onApplyLoads: (loads: { P: number; nP: number; M0: number }) => void;
+}
+
+const InverseSolvePanel: React.FC<InverseSolvePanelProps> = ({ params, selectedModels, customPrb, results, unitSystem, onApplyLoads }) => {
+  const isMetric = unitSystem === UnitSystem.METRIC;
+  const lengthScale = isMetric ? 1 : 1 / 0.0254;
+  const lengthUnit = isMetric ? 'm' : 'in';
+  const forceScale = isMetric ? 1 : 1 / 4.44822;
+  const forceUnit = isMetric ? 'N' : 'lbf';
+  const momentScale = isMetric ? 1 : 1 / 0.112985;
+  const momentUnit = isMetric ? 'N-m' : 'lbf-in';
+
+  const [target, setTarget] = useState<TipTarget>({ x: params.L * 0.8, y: params.L * 0.5, theta: Math.PI / 4 });
+  const [solutions, setSolutions] = useState<InverseResult[] | null>(null);
+
+  // The linear model has no large-deflection inverse worth reporting
+  const models = selectedModels.filter(m => m !== BeamModelType.LINEAR);
+
+  const handleTargetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    setTarget({ ...target, [name]: name === 'theta' ? val * (Math.PI / 180) : val / lengthScale });
+  };
+
+  const useCurrentTip = () => {
+    const reference = results.find(r => r.label === 'Nonlinear') ?? results[0];
+    if (reference) setTarget({ x: reference.tipX, y: reference.tipY, theta: reference.tipAngle });
+  };
+
+  const onInputFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  const inputClass = "w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono";
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+        <Crosshair size={18} className="text-blue-600" />
+        Inverse Solve: Loads for a Target Tip Pose
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Target X [{lengthUnit}]</label>
+          <input type="number" name="x" value={Number((target.x * lengthScale).toFixed(4))} onChange={handleTargetChange} onFocus={onInputFocus} className={inputClass} step="any" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Target Y [{lengthUnit}]</label>
+          <input type="number" name="y" value={Number((target.y * lengthScale).toFixed(4))} onChange={handleTargetChange} onFocus={onInputFocus} className={inputClass} step="any" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Target θ₀ [°]</label>
+          <input type="number" name="theta" value={Number((target.theta * (180 / Math.PI)).toFixed(3))} onChange={handleTargetChange} onFocus={onInputFocus} className={inputClass} step="any" />
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={useCurrentTip}
+            className="flex-1 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-semibold rounded-lg transition-colors"
+          >
+            Current Tip
+          </button>
+          <button
+            onClick={() => setSolutions(models.map(m => solveInverse(params, m, target, customPrb)))}
+            disabled={models.length === 0}
+            className="flex-1 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-xs font-semibold rounded-lg transition-colors"
+          >
+            Solve Loads
+          </button>
+        </div>
+      </div>
+
+      {solutions && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-slate-500 border-b">
+              <tr>
+                <th className="pb-3 font-semibold">Model</th>
+                <th className="pb-3 font-semibold text-right">P ({forceUnit})</th>
+                <th className="pb-3 font-semibold text-right">nP ({forceUnit})</th>
+                <th className="pb-3 font-semibold text-right">M₀ ({momentUnit})</th>
+                <th className="pb-3 font-semibold text-right">Miss</th>
+                <th className="pb-3 font-semibold text-right"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {solutions.map(s => (
+                <tr key={s.label} className="hover:bg-slate-50">
+                  <td className="py-3 font-medium text-slate-700">
+                    <div className="flex items-center gap-1.5">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                      {s.label}
+                    </div>
+                  </td>
+                  {s.result ? (
+                    <>
+                      <td className="py-3 text-right text-slate-600 font-mono">{(s.P * forceScale).toFixed(4)}</td>
+                      <td className="py-3 text-right text-slate-600 font-mono">{(s.nP * forceScale).toFixed(4)}</td>
+                      <td className="py-3 text-right text-slate-600 font-mono">{(s.M0 * momentScale).toFixed(4)}</td>
+                      <td className="py-3 text-right text-[11px] text-slate-500 font-mono">
+                        {(s.positionError * 100).toFixed(3)}% L, {(s.angleError * (180 / Math.PI)).toFixed(2)}°
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className="py-3 text-right text-[11px] text-slate-400 italic">Target lies beyond the beam's length</td>
+                  )}
+                  <td className="py-3 text-right">
+                    {s.reachable ? (
+                      <button
+                        onClick={() => onApplyLoads({ P: s.P, nP: s.nP, M0: s.M0 })}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-green-100 text-green-700 hover:bg-green-200"
+                      >
+                        <Check size={10} /> Apply
+                      </button>
+                    ) : (
+                      <span
+                        title="No load combination reaches this pose; the loads shown give the closest tip"
+                        className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-red-100 text-red-700"
+                      >
+                        <AlertTriangle size={10} /> Unreachable
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t text-xs text-slate-400 italic leading-relaxed">
+        *Each model is solved independently for P, nP and M₀ by least squares over its forward solution. 1R models and guided tips have too few degrees of freedom to meet an arbitrary (x, y, θ₀), so they report the closest pose.
+      </div>
+    </div>
+  );
+};
+
+export default InverseSolvePanel;
@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import { BeamParams, BeamModelType, UnitSystem, LoadSweepOptions, PrbParameters } from '../types';
+import { runLoadSweep } from '../services/loadSweep';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+
+interface LoadSweepChartProps {
+  params: BeamParams;
+  selectedModels: BeamModelType[];
+  customPrb: PrbParameters;
+  unitSystem: UnitSystem;
+}
+
+type SweepQuantity = 'tipX' | 'tipY' | 'tipAngle';
+
+const LoadSweepChart: React.FC<LoadSweepChartProps> = ({ params, selectedModels, customPrb, unitSystem }) => {
+  const [quantity, setQuantity] = useState<SweepQuantity>('tipY');
+  const [options, setOptions] = useState<LoadSweepOptions>({
+    steps: 20,
+    startFactor: 0,
+    endFactor: 1
+  });
+  const isMetric = unitSystem === UnitSystem.METRIC;
+  const lengthScale = isMetric ? 1 : 1 / 0.0254;
+  const lengthUnit = isMetric ? 'm' : 'in';
+
+  const samples = useMemo(
+    () => runLoadSweep(params, selectedModels, options, customPrb),
+    [params, selectedModels, options, customPrb]
+  );
+
+  const chartData = samples.map(s => {
+    const row: Record<string, number> = { load: parseFloat((s.loadFactor * 100).toFixed(2)) };
+    s.results.forEach(r => {
+      const value = quantity === 'tipAngle' ? r.tipAngle * (180 / Math.PI) : r[quantity] * lengthScale;
+      row[r.label] = parseFloat(value.toFixed(5));
+    });
+    return row;
+  });
+
+  const series = samples.length > 0 ? samples[0].results : [];
+
+  const handleOptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    if (name === 'steps') {
+      setOptions({ ...options, steps: Math.max(1, Math.min(200, Math.round(val))) });
+    } else {
+      setOptions({ ...options, [name]: val / 100 });
+    }
+  };
+
+  const quantityLabels: Record<SweepQuantity, string> = {
+    tipX: `Tip X (${lengthUnit})`,
+    tipY: `Tip Y (${lengthUnit})`,
+    tipAngle: 'θ₀ (°)'
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <TrendingUp size={18} className="text-blue-600" />
+          Load–Deflection Sweep
+        </h3>
+        <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg">
+          {(Object.keys(quantityLabels) as SweepQuantity[]).map(q => (
+            <button
+              key={q}
+              onClick={() => setQuantity(q)}
+              className={`px-3 py-1 text-xs font-semibold rounded-md transition-all ${quantity === q ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {quantityLabels[q]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 bg-slate-50 p-3 rounded-lg border border-slate-100 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Start [% of load]</label>
+          <input
+            type="number"
+            name="startFactor"
+            value={Number((options.startFactor * 100).toFixed(2))}
+            onChange={handleOptionChange}
+            className="w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono"
+            step="any"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">End [% of load]</label>
+          <input
+            type="number"
+            name="endFactor"
+            value={Number((options.endFactor * 100).toFixed(2))}
+            onChange={handleOptionChange}
+            className="w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono"
+            step="any"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Steps (N)</label>
+          <input
+            type="number"
+            name="steps"
+            value={options.steps}
+            onChange={handleOptionChange}
+            className="w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono"
+            step="1"
+          />
+        </div>
+      </div>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="load"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              fontSize={10}
+              label={{ value: 'Load (% of applied P, nP, M₀)', position: 'insideBottom', offset: -5, fontSize: 10 }}
+            />
+            <YAxis fontSize={10} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+              itemStyle={{ color: '#94a3b8' }}
+              labelFormatter={(v) => `${v}% load`}
+            />
+            <Legend verticalAlign="top" height={36} />
+            {series.map(r => (
+              <Line
+                key={r.label}
+                type="monotone"
+                dataKey={r.label}
+                stroke={r.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-4 pt-4 border-t text-xs text-slate-400 italic leading-relaxed">
+        *P, nP and M₀ are scaled together, so each curve follows a proportional loading path. Plotting {quantityLabels[quantity]}.
+      </div>
+    </div>
+  );
+};
+
+export default LoadSweepChart;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { BeamParams, Material, UnitSystem } from '../types';
+import { MATERIALS } from '../services/materials';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface MaterialLibraryProps {
+  params: BeamParams;
+  material: Material;
+  setMaterial: (m: Material) => void;
+  onSelect: (m: Material) => void; // Also loads E and density into the beam
+  customMaterials: Material[];
+  setCustomMaterials: (m: Material[]) => void;
+  unitSystem: UnitSystem;
+}
+
+const MaterialLibrary: React.FC<MaterialLibraryProps> = ({ params, material, setMaterial, onSelect, customMaterials, setCustomMaterials, unitSystem }) => {
+  const [newName, setNewName] = useState('');
+  const isMetric = unitSystem === UnitSystem.METRIC;
+  const stressScale = isMetric ? 1e6 : 6.89476e6;
+  const stressUnit = isMetric ? 'MPa' : 'ksi';
+
+  const library = [...MATERIALS, ...customMaterials];
+  const entry = library.find(m => m.name === material.name);
+  // E and ρ live in the beam parameters and can be typed over after selecting
+  const modified = !entry
+    || entry.E !== params.E
+    || entry.density !== params.density
+    || entry.yieldStrength !== material.yieldStrength
+    || entry.fatigueStrength !== material.fatigueStrength;
+
+  const handleSelect = (name: string) => {
+    const m = library.find(l => l.name === name);
+    if (m) onSelect(m);
+  };
+
+  const handleStrengthChange = (name: 'yieldStrength' | 'fatigueStrength', value: string) => {
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    setMaterial({ ...material, [name]: val * stressScale });
+  };
+
+  const saveCustom = () => {
+    const name = newName.trim();
+    if (!name || MATERIALS.some(m => m.name === name)) return;
+    const m: Material = { ...material, name, E: params.E, density: params.density, custom: true };
+    setCustomMaterials([...customMaterials.filter(c => c.name !== name), m]);
+    setMaterial(m);
+    setNewName('');
+  };
+
+  const removeCustom = () => {
+    setCustomMaterials(customMaterials.filter(c => c.name !== material.name));
+    onSelect(MATERIALS[0]);
+  };
+
+  const onInputFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  const inputClass = "w-20 px-1 py-0.5 text-right text-xs border rounded focus:ring-1 focus:ring-blue-500 outline-none font-mono";
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-3 mb-4">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Material</div>
+        {modified && <span className="text-[10px] font-semibold text-amber-600">modified</span>}
+      </div>
+      <div className="flex gap-1">
+        <select
+          value={entry ? material.name : ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 px-2 py-1 text-xs border rounded bg-white focus:ring-1 focus:ring-blue-500 outline-none"
+        >
+          {!entry && <option value="">{material.name}</option>}
+          <optgroup label="Library">
+            {MATERIALS.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+          </optgroup>
+          {customMaterials.length > 0 && (
+            <optgroup label="User-defined">
+              {customMaterials.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {material.custom && (
+          <button onClick={removeCustom} title="Remove this material" className="px-1.5 text-slate-400 hover:text-red-500">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-medium text-slate-600">Yield Strength (S_y)</label>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            value={Number((material.yieldStrength / stressScale).toPrecision(5))}
+            onChange={(e) => handleStrengthChange('yieldStrength', e.target.value)}
+            onFocus={onInputFocus}
+            className={inputClass}
+            step="any"
+          />
+          <span className="text-[10px] text-slate-400 font-bold w-6">{stressUnit}</span>
+        </div>
+      </div>
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-medium text-slate-600">Fatigue Strength (S_e)</label>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            value={Number((material.fatigueStrength / stressScale).toPrecision(5))}
+            onChange={(e) => handleStrengthChange('fatigueStrength', e.target.value)}
+            onFocus={onInputFocus}
+            className={inputClass}
+            step="any"
+          />
+          <span className="text-[10px] text-slate-400 font-bold w-6">{stressUnit}</span>
+        </div>
+      </div>
+      <div className="flex justify-between text-[10px] text-slate-500 font-mono">
+        <span>S_y/E: {(material.yieldStrength / params.E * 1000).toFixed(2)}×10⁻³</span>
+        <span>ρ: {isMetric ? params.density.toFixed(0) : (params.density / 27679.9).toFixed(4)} {isMetric ? 'kg/m³' : 'lb/in³'}</span>
+      </div>
+      <div className="flex gap-1 pt-2 border-t border-slate-200">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Save current E, ρ, S_y, S_e as…"
+          className="flex-1 px-2 py-1 text-xs border rounded focus:ring-1 focus:ring-blue-500 outline-none"
+        />
+        <button
+          onClick={saveCustom}
+          disabled={!newName.trim()}
+          className="flex items-center gap-1 px-2 py-0.5 bg-white border border-slate-200 rounded text-[10px] font-semibold text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+        >
+          <Plus size={12} /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MaterialLibrary;
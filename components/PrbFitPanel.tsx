@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { BeamParams, FitRangeType, PrbFitOptions, PrbFitResult, PrbParameters } from '../types';
+import { fitPrbParameters } from '../services/prbFitting';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Target, Check } from 'lucide-react';
+
+interface PrbFitPanelProps {
+  params: BeamParams;
+  onApply: (prb: PrbParameters) => void;
+}
+
+const PrbFitPanel: React.FC<PrbFitPanelProps> = ({ params, onApply }) => {
+  const [options, setOptions] = useState<PrbFitOptions>({
+    joints: 1,
+    rangeType: FitRangeType.LOAD_MAGNITUDE,
+    rangeStart: 0,
+    rangeEnd: 1,
+    samples: 10
+  });
+  const [fit, setFit] = useState<PrbFitResult | null>(null);
+  const isAngle = options.rangeType === FitRangeType.LOAD_ANGLE;
+
+  const handleOptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    if (name === 'samples') {
+      setOptions({ ...options, samples: Math.max(2, Math.min(50, Math.round(val))) });
+    } else {
+      // Load-magnitude limits are entered in percent
+      setOptions({ ...options, [name]: isAngle ? val : val / 100 });
+    }
+  };
+
+  const setRangeType = (rangeType: FitRangeType) => {
+    setOptions(rangeType === FitRangeType.LOAD_ANGLE
+      ? { ...options, rangeType, rangeStart: 45, rangeEnd: 135 }
+      : { ...options, rangeType, rangeStart: 0, rangeEnd: 1 });
+  };
+
+  const uiRange = (v: number) => Number((isAngle ? v : v * 100).toFixed(2));
+
+  const fitIsAngle = fit?.rangeType === FitRangeType.LOAD_ANGLE;
+  const chartData = fit?.samples.map(s => ({
+    x: parseFloat((fitIsAngle ? s.rangeValue : s.rangeValue * 100).toFixed(2)),
+    position: parseFloat((s.positionError * 100).toFixed(4)),
+    angle: parseFloat((s.angleError * (180 / Math.PI)).toFixed(4))
+  })) ?? [];
+
+  const inputClass = "w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow font-mono";
+  const toggleClass = (active: boolean) => `flex-1 px-3 py-1 text-xs font-semibold rounded-md transition-all ${active ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+        <Target size={18} className="text-blue-600" />
+        PRB Parameter Fitting
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Model</label>
+            <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg">
+              {[1, 2, 3, 4].map(j => (
+                <button key={j} onClick={() => setOptions({ ...options, joints: j })} className={toggleClass(options.joints === j)}>
+                  {j}R
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Fit Range</label>
+            <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg">
+              {Object.values(FitRangeType).map(t => (
+                <button key={t} onClick={() => setRangeType(t)} className={toggleClass(options.rangeType === t)}>
+                  {t}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 bg-slate-50 p-3 rounded-lg border border-slate-100">
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Start [{isAngle ? 'φ°' : '%'}]</label>
+              <input type="number" name="rangeStart" value={uiRange(options.rangeStart)} onChange={handleOptionChange} className={inputClass} step="any" />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">End [{isAngle ? 'φ°' : '%'}]</label>
+              <input type="number" name="rangeEnd" value={uiRange(options.rangeEnd)} onChange={handleOptionChange} className={inputClass} step="any" />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Samples</label>
+              <input type="number" name="samples" value={options.samples} onChange={handleOptionChange} className={inputClass} step="1" />
+            </div>
+          </div>
+
+          <button
+            onClick={() => setFit(fitPrbParameters(params, options))}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            Fit to Nonlinear Solution
+          </button>
+
+          {fit && (
+            <div className="bg-slate-50 rounded-lg p-3 border border-slate-200 text-[11px] space-y-1">
+              <div className="flex justify-between">
+                <span className="text-slate-500 italic">Link Ratios (g0-g{fit.prb.links!.length - 1})</span>
+                <span className="font-mono text-blue-700">[{fit.prb.links!.map(g => g.toFixed(4)).join(', ')}]</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500 italic">Non-dim K_ci</span>
+                <span className="font-mono text-blue-700">[{fit.prb.stiffness_coeffs!.map(k => k.toFixed(4)).join(', ')}]</span>
+              </div>
+              {fit.prb.c_theta !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-slate-500 italic">c_θ (Tip angle factor)</span>
+                  <span className="font-mono text-blue-700">{fit.prb.c_theta.toFixed(4)}</span>
+                </div>
+              )}
+              <div className="flex justify-between pt-1 border-t border-slate-200">
+                <span className="text-slate-500">Max tip error</span>
+                <span className="font-mono font-bold text-slate-700">{(fit.maxPositionError * 100).toFixed(3)}% L</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-500">Max θ₀ error</span>
+                <span className="font-mono font-bold text-slate-700">{(fit.maxAngleError * (180 / Math.PI)).toFixed(3)}°</span>
+              </div>
+              <button
+                onClick={() => onApply(fit.prb)}
+                className="w-full mt-2 flex items-center justify-center gap-1.5 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-semibold rounded-md transition-colors"
+              >
+                <Check size={14} /> Apply as Custom Model
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="h-72">
+          {fit ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  fontSize={10}
+                  label={{ value: fitIsAngle ? 'Load angle φ (°)' : 'Load (% of applied)', position: 'insideBottom', offset: -5, fontSize: 10 }}
+                />
+                <YAxis yAxisId="position" fontSize={10} />
+                <YAxis yAxisId="angle" orientation="right" fontSize={10} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+                  itemStyle={{ color: '#94a3b8' }}
+                />
+                <Legend verticalAlign="top" height={36} />
+                <Line yAxisId="position" type="monotone" dataKey="position" name="Tip error (% L)" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line yAxisId="angle" type="monotone" dataKey="angle" name="θ₀ error (°)" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-slate-400 text-xs italic">
+              Run a fit to see the error envelope.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrbFitPanel;
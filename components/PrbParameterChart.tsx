@@ -0,0 +1,87 @@
+import React from 'react';
+import { BeamParams } from '../types';
+import { CANTILEVER_FORCE_TABLE, PRB_N_RANGE, cantileverForceParameters, loadRatio } from '../services/prbParameters';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceDot, ReferenceLine } from 'recharts';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface PrbParameterChartProps {
+  params: BeamParams;
+}
+
+type ParameterKey = 'gamma' | 'K_theta' | 'c_theta';
+
+const PARAMETERS: { key: ParameterKey; label: string; color: string; digits: number }[] = [
+  { key: 'gamma', label: 'γ', color: '#f59e0b', digits: 4 },
+  { key: 'K_theta', label: 'K_Θ', color: '#8b5cf6', digits: 4 },
+  { key: 'c_theta', label: 'c_θ', color: '#0ea5e9', digits: 4 }
+];
+
+const PrbParameterChart: React.FC<PrbParameterChartProps> = ({ params }) => {
+  const n = loadRatio(params.P, params.nP);
+  const operating = cantileverForceParameters(n);
+  // The marker sits at the table end when n lies beyond it
+  const markerN = Math.min(PRB_N_RANGE[1], Math.max(PRB_N_RANGE[0], n));
+  const inRange = n >= PRB_N_RANGE[0] && n <= PRB_N_RANGE[1];
+  const loadAngle = Math.atan2(params.P, -params.nP) * (180 / Math.PI);
+  const data = CANTILEVER_FORCE_TABLE.map(row => ({ n: row.n, gamma: row.gamma, K_theta: row.K_theta, c_theta: row.c_theta }));
+  const formatN = isFinite(n) ? n.toFixed(3) : n > 0 ? '∞' : '−∞';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <SlidersHorizontal size={18} className="text-blue-600" />
+          PRB 1R (nP) Parameters vs Load Ratio
+        </h3>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] font-mono text-slate-600">
+          <span>n = {formatN}</span>
+          <span>φ = {loadAngle.toFixed(1)}°</span>
+          <span>Θ_max = {(operating.thetaMax * (180 / Math.PI)).toFixed(1)}°</span>
+          {!inRange && <span className="text-amber-600 font-semibold">n outside table: end values used</span>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {PARAMETERS.map(p => (
+          <div key={p.key}>
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="font-bold" style={{ color: p.color }}>{p.label}(n)</span>
+              <span className="font-mono text-slate-700">{operating[p.key].toFixed(p.digits)}</span>
+            </div>
+            <div className="h-44">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="n" type="number" domain={PRB_N_RANGE} fontSize={10} />
+                  <YAxis fontSize={10} domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(2)} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+                    itemStyle={{ color: '#94a3b8' }}
+                    labelFormatter={(v) => `n = ${v}`}
+                  />
+                  <ReferenceLine x={markerN} stroke="#94a3b8" strokeDasharray="4 4" />
+                  <Line
+                    type="linear"
+                    dataKey={p.key}
+                    name={p.label}
+                    stroke={p.color}
+                    strokeWidth={2}
+                    dot={{ r: 2 }}
+                    isAnimationActive={false}
+                  />
+                  <ReferenceDot x={markerN} y={operating[p.key]} r={5} fill={p.color} stroke="#fff" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t text-xs text-slate-400 italic leading-relaxed">
+        *Handbook values for the cantilever with a tip force at load ratio n = nP/|P| (positive n compressive); φ is the direction of the tip force from +x. The solver interpolates linearly between rows; the dot marks the current load.
+      </div>
+    </div>
+  );
+};
+
+export default PrbParameterChart;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { PrbParameters } from '../types';
+import { prbParameterError } from '../services/beamSolver';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface PrbParameterEditorProps {
+  prb: PrbParameters;
+  setPrb: (p: PrbParameters) => void;
+}
+
+// Published parameter sets to start from; K_c for a 1R model is γK_Θ
+const PRESETS: { name: string; prb: PrbParameters }[] = [
+  { name: '1R (γ=0.85)', prb: { links: [0.15, 0.85], stiffness_coeffs: [0.85 * 2.65], c_theta: 1.24 } },
+  { name: '3R (Su)', prb: { links: [0.1, 0.35, 0.40, 0.15], stiffness_coeffs: [3.51, 2.99, 2.58] } }
+];
+
+const PrbParameterEditor: React.FC<PrbParameterEditorProps> = ({ prb, setPrb }) => {
+  const links = prb.links ?? [1];
+  const coeffs = prb.stiffness_coeffs ?? [];
+  const jointCount = Math.min(links.length - 1, coeffs.length);
+  const linkSum = links.reduce((acc, g) => acc + g, 0);
+  // K_c entries the solver would reject stay here, flagged, instead of reaching the model
+  const [rejectedCoeffs, setRejectedCoeffs] = useState<Record<number, string>>({});
+  const error = prbParameterError(prb);
+
+  const update = (nextLinks: number[], nextCoeffs: number[]) => {
+    setPrb({ ...prb, links: nextLinks, stiffness_coeffs: nextCoeffs });
+  };
+
+  const handleLinkChange = (idx: number, value: string) => {
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    update(links.map((g, i) => (i === idx ? val : g)), coeffs);
+  };
+
+  const handleCThetaChange = (value: string) => {
+    const val = parseFloat(value);
+    if (isNaN(val)) return;
+    setPrb({ ...prb, c_theta: val });
+  };
+
+  const handleCoeffChange = (idx: number, value: string) => {
+    const val = parseFloat(value);
+    if (isNaN(val) || val <= 0) {
+      setRejectedCoeffs(prev => ({ ...prev, [idx]: value }));
+      return;
+    }
+    setRejectedCoeffs(({ [idx]: _, ...rest }) => rest);
+    update(links, coeffs.map((k, i) => (i === idx ? val : k)));
+  };
+
+  // Leaving a rejected entry shows the value still in use again
+  const clearRejected = (idx: number) => setRejectedCoeffs(({ [idx]: _, ...rest }) => rest);
+
+  const addJoint = () => {
+    // Split the last link in two so the total length is unchanged
+    const last = links[links.length - 1];
+    update([...links.slice(0, -1), last / 2, last / 2], [...coeffs.slice(0, jointCount), coeffs[jointCount - 1] ?? 2.65]);
+  };
+
+  const removeJoint = (idx: number) => {
+    if (jointCount <= 1) return;
+    // Merge the link after joint idx into the one before it
+    const nextLinks = links.filter((_, i) => i !== idx + 1);
+    nextLinks[idx] += links[idx + 1];
+    update(nextLinks, coeffs.filter((_, i) => i !== idx));
+    setRejectedCoeffs({});
+  };
+
+  const onInputFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  const inputClass = "w-full px-1 py-0.5 text-right text-xs border rounded focus:ring-1 focus:ring-blue-500 outline-none font-mono";
+
+  return (
+    <div className="bg-slate-50 rounded-lg p-3 border border-slate-200 mt-2">
+      <div className="flex items-center justify-between mb-2 border-b pb-1">
+        <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Custom nR Parameters</h4>
+        <div className="flex gap-1">
+          {PRESETS.map(p => (
+            <button
+              key={p.name}
+              onClick={() => {
+                setPrb({ ...p.prb });
+                setRejectedCoeffs({});
+              }}
+              className="px-2 py-0.5 bg-white border border-slate-200 rounded text-[10px] font-semibold text-slate-600 hover:bg-slate-100"
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-12 gap-1 items-center text-[10px] text-slate-500 font-semibold mb-1">
+        <span className="col-span-3">Link</span>
+        <span className="col-span-4 text-right">γᵢ</span>
+        <span className="col-span-4 text-right">K_cᵢ</span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-12 gap-1 items-center">
+          <span className="col-span-3 text-[11px] text-slate-600 font-mono">γ₀</span>
+          <div className="col-span-4">
+            <input type="number" value={links[0]} onChange={(e) => handleLinkChange(0, e.target.value)} onFocus={onInputFocus} className={inputClass} step="any" />
+          </div>
+          <span className="col-span-4 text-right text-[10px] text-slate-400 italic">fixed</span>
+        </div>
+        {Array.from({ length: jointCount }, (_, i) => (
+          <div key={i} className="grid grid-cols-12 gap-1 items-center">
+            <span className="col-span-3 text-[11px] text-slate-600 font-mono">γ{i + 1} / K{i + 1}</span>
+            <div className="col-span-4">
+              <input type="number" value={links[i + 1]} onChange={(e) => handleLinkChange(i + 1, e.target.value)} onFocus={onInputFocus} className={inputClass} step="any" />
+            </div>
+            <div className="col-span-4">
+              <input
+                type="number"
+                value={rejectedCoeffs[i] ?? coeffs[i]}
+                onChange={(e) => handleCoeffChange(i, e.target.value)}
+                onFocus={onInputFocus}
+                onBlur={() => clearRejected(i)}
+                className={`${inputClass} ${rejectedCoeffs[i] !== undefined ? 'border-red-400 text-red-600' : ''}`}
+                min="0"
+                step="any"
+              />
+            </div>
+            <button
+              onClick={() => removeJoint(i)}
+              disabled={jointCount <= 1}
+              className="col-span-1 flex justify-center text-slate-400 hover:text-red-500 disabled:opacity-30"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-12 gap-1 items-center mt-1">
+        <span className="col-span-3 text-[11px] text-slate-600 font-mono">c_θ</span>
+        <div className="col-span-4 col-start-9">
+          <input type="number" value={prb.c_theta ?? 1} onChange={(e) => handleCThetaChange(e.target.value)} onFocus={onInputFocus} className={inputClass} step="any" />
+        </div>
+      </div>
+
+      {(Object.keys(rejectedCoeffs).length > 0 || error) && (
+        <p className="mt-1 text-[10px] text-red-600">
+          {Object.keys(rejectedCoeffs).length > 0 ? 'K_c must be a positive number; the previous value is kept.' : error}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between mt-2 pt-2 border-t border-slate-200">
+        <button
+          onClick={addJoint}
+          className="flex items-center gap-1 px-2 py-0.5 bg-white border border-slate-200 rounded text-[10px] font-semibold text-slate-600 hover:bg-slate-100"
+        >
+          <Plus size={12} /> Joint
+        </button>
+        <span className={`text-[10px] font-mono ${Math.abs(linkSum - 1) < 1e-6 ? 'text-slate-500' : 'text-amber-600 font-bold'}`}>
+          Σγ = {linkSum.toFixed(4)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PrbParameterEditor;
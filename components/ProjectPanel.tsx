@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { AnalysisState, Material } from '../types';
+import { createProjectFile, serializeProject, parseProjectFile, projectFileName, LoadedProject, PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { downloadText } from '../services/resultExport';
+import { FolderOpen, Save, AlertTriangle } from 'lucide-react';
+
+interface ProjectPanelProps {
+  state: AnalysisState;
+  customMaterials: Material[];
+  onLoad: (project: LoadedProject) => void;
+}
+
+type Status = { kind: 'saved' | 'loaded' | 'error'; message: string; warnings?: string[] };
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({ state, customMaterials, onLoad }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [status, setStatus] = useState<Status | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const project = createProjectFile(name.trim(), description.trim(), state, customMaterials);
+    const fileName = projectFileName(name);
+    downloadText(fileName, serializeProject(project), 'application/json');
+    setStatus({ kind: 'saved', message: `Saved ${fileName}` });
+  };
+
+  const handleOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const parsed = parseProjectFile(text);
+      if ('error' in parsed) {
+        setStatus({ kind: 'error', message: `${file.name}: ${parsed.error}` });
+        return;
+      }
+      const { project } = parsed;
+      setName(project.name);
+      setDescription(project.description);
+      onLoad(project);
+      const saved = project.savedAt ? ` (saved ${new Date(project.savedAt).toLocaleDateString()})` : '';
+      setStatus({ kind: 'loaded', message: `Opened ${project.name || file.name}${saved}`, warnings: project.warnings });
+    });
+  };
+
+  const inputClass = "w-full px-2 py-1.5 text-sm border rounded-md focus:ring-1 focus:ring-blue-500 outline-none transition-shadow";
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-800">Project</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1 px-2.5 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-semibold rounded-md transition-colors"
+          >
+            <FolderOpen size={12} /> Open
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1 px-2.5 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-semibold rounded-md transition-colors"
+          >
+            <Save size={12} /> Save
+          </button>
+          <input ref={fileInput} type="file" accept={`${PROJECT_FILE_EXTENSION},.json,application/json`} onChange={handleOpen} className="hidden" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Analysis name"
+          className={inputClass}
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Notes (optional)"
+          rows={2}
+          className={`${inputClass} resize-none text-xs`}
+        />
+      </div>
+
+      {status && (
+        <div className={`mt-3 text-[11px] ${status.kind === 'error' ? 'text-red-600' : 'text-slate-500'}`}>
+          <div className="flex items-center gap-1">
+            {status.kind === 'error' && <AlertTriangle size={11} />}
+            {status.message}
+          </div>
+          {status.warnings && status.warnings.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-amber-600">
+              {status.warnings.map((w, i) => <li key={i}>• {w}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
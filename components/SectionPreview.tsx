@@ -0,0 +1,64 @@
+import React from 'react';
+import { CrossSectionType, SectionDimensions } from '../types';
+
+interface SectionPreviewProps {
+  type: CrossSectionType;
+  dims: SectionDimensions;
+  size?: number;      // Rendered width and height in px
+  color?: string;
+}
+
+// Closed SVG subpaths, centred on the origin with y pointing down
+const rectPath = (w: number, h: number, cy: number = 0) =>
+  `M ${-w / 2} ${cy - h / 2} H ${w / 2} V ${cy + h / 2} H ${-w / 2} Z`;
+
+const ellipsePath = (rx: number, ry: number) =>
+  `M ${-rx} 0 A ${rx} ${ry} 0 1 0 ${rx} 0 A ${rx} ${ry} 0 1 0 ${-rx} 0 Z`;
+
+/**
+ * Outline of a section, drawn to scale, with holes cut by the even-odd rule.
+ * Returns the path and its extent.
+ */
+const profile = (type: CrossSectionType, d: SectionDimensions): { path: string; w: number; h: number } => {
+  const { width: b, height: h, diameter: D, wall: t, flange: tf, web: tw } = d;
+  switch (type) {
+    case CrossSectionType.RECTANGULAR:
+      return { path: rectPath(b, h), w: b, h };
+    case CrossSectionType.CIRCULAR:
+      return { path: ellipsePath(D / 2, D / 2), w: D, h: D };
+    case CrossSectionType.HOLLOW_TUBE: {
+      const r = Math.max(0, D / 2 - t);
+      return { path: ellipsePath(D / 2, D / 2) + (r > 0 ? ' ' + ellipsePath(r, r) : ''), w: D, h: D };
+    }
+    case CrossSectionType.RECT_TUBE: {
+      const bi = Math.max(0, b - 2 * t);
+      const hi = Math.max(0, h - 2 * t);
+      return { path: rectPath(b, h) + (bi > 0 && hi > 0 ? ' ' + rectPath(bi, hi) : ''), w: b, h };
+    }
+    case CrossSectionType.I_BEAM: {
+      const f = Math.min(tf, h / 2);
+      const hw = h - 2 * f;
+      return { path: [rectPath(b, f, -h / 2 + f / 2), rectPath(Math.min(tw, b), hw), rectPath(b, f, h / 2 - f / 2)].join(' '), w: b, h };
+    }
+    case CrossSectionType.T_SECTION: {
+      const f = Math.min(tf, h);
+      const hw = h - f;
+      return { path: [rectPath(b, f, -h / 2 + f / 2), rectPath(Math.min(tw, b), hw, h / 2 - hw / 2)].join(' '), w: b, h };
+    }
+    case CrossSectionType.ELLIPTICAL:
+      return { path: ellipsePath(b / 2, h / 2), w: b, h };
+  }
+};
+
+const SectionPreview: React.FC<SectionPreviewProps> = ({ type, dims, size = 48, color = '#2563eb' }) => {
+  const { path, w, h } = profile(type, dims);
+  const extent = Math.max(w, h, 1e-12) * 1.1;
+
+  return (
+    <svg width={size} height={size} viewBox={`${-extent / 2} ${-extent / 2} ${extent} ${extent}`}>
+      <path d={path} fill={color} fillOpacity={0.25} fillRule="evenodd" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export default SectionPreview;
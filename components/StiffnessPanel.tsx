@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { BeamParams, BeamModelType, BeamResult, BoundaryCondition, PrbParameters, UnitSystem } from '../types';
+import { tipTangent } from '../services/tangentStiffness';
+import { Grid3x3 } from 'lucide-react';
+
+interface StiffnessPanelProps {
+  params: BeamParams;
+  selectedModels: BeamModelType[];
+  customPrb: PrbParameters;
+  results: BeamResult[];
+  unitSystem: UnitSystem;
+}
+
+type MatrixView = 'compliance' | 'stiffness';
+
+const StiffnessPanel: React.FC<StiffnessPanelProps> = ({ params, selectedModels, customPrb, results, unitSystem }) => {
+  const [view, setView] = useState<MatrixView>('stiffness');
+  const isMetric = unitSystem === UnitSystem.METRIC;
+
+  // Display scales for the pose (x, y, θ₀) and the loads (P, nP, M0)
+  const poseScale = [isMetric ? 1 : 1 / 0.0254, isMetric ? 1 : 1 / 0.0254, 1];
+  const loadScale = [isMetric ? 1 : 1 / 4.44822, isMetric ? 1 : 1 / 4.44822, isMetric ? 1 : 1 / 0.112985];
+  const poseLabels = ['x', 'y', 'θ₀'];
+  const loadLabels = ['P', 'nP', 'M₀'];
+  const energyScale = isMetric ? 1 : 1 / 0.112985;
+  const energyUnit = isMetric ? 'J' : 'lbf-in';
+
+  const tangents = useMemo(
+    () => selectedModels.map(m => tipTangent(params, m, customPrb)),
+    [params, selectedModels, customPrb]
+  );
+
+  // PRB energy is compared with the nonlinear solution that shares its boundary condition
+  const referenceEnergy = (r: BeamResult) => {
+    const boundary = r.boundary ?? BoundaryCondition.CANTILEVER;
+    const reference = results.find(n =>
+      (n.label === 'Nonlinear' || n.label === 'Nonlinear (Guided)') &&
+      (n.boundary ?? BoundaryCondition.CANTILEVER) === boundary
+    );
+    return reference && reference !== r ? reference.strainEnergy : undefined;
+  };
+
+  const toggleClass = (active: boolean) => `px-3 py-1 text-xs font-semibold rounded-md transition-all ${active ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Grid3x3 size={18} className="text-blue-600" />
+          Tip Stiffness & Strain Energy
+        </h3>
+        <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg">
+          <button onClick={() => setView('stiffness')} className={toggleClass(view === 'stiffness')}>Stiffness K</button>
+          <button onClick={() => setView('compliance')} className={toggleClass(view === 'compliance')}>Compliance C</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {results.map((r, idx) => {
+          const tangent = tangents[idx];
+          if (!tangent) return null;
+          const reference = referenceEnergy(r);
+          const energyError = reference ? (r.strainEnergy - reference) / reference * 100 : undefined;
+          // K maps pose to loads, C maps loads to pose
+          const matrix = view === 'stiffness' ? tangent.stiffness : tangent.compliance;
+          const rows = view === 'stiffness' ? loadLabels : poseLabels;
+          const cols = view === 'stiffness' ? poseLabels : loadLabels;
+          const entry = (i: number, j: number) => view === 'stiffness'
+            ? matrix![i][j] * loadScale[i] / poseScale[j]
+            : matrix![i][j] * poseScale[i] / loadScale[j];
+
+          return (
+            <div key={r.label} className="bg-slate-50 rounded-lg p-3 border border-slate-200">
+              <div className="flex items-center justify-between border-b pb-1 mb-2">
+                <span className="flex items-center gap-1.5 text-xs font-bold text-slate-700">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: r.color }} />
+                  {r.label}
+                </span>
+                <span className="text-[11px] font-mono text-slate-600">
+                  U = {(r.strainEnergy * energyScale).toPrecision(4)} {energyUnit}
+                  {energyError !== undefined && (
+                    <span className={`ml-1 ${Math.abs(energyError) < 5 ? 'text-green-600' : 'text-amber-600'}`}>
+                      ({energyError >= 0 ? '+' : ''}{energyError.toFixed(1)}%)
+                    </span>
+                  )}
+                </span>
+              </div>
+              {matrix ? (
+                <table className="w-full text-[10px] font-mono">
+                  <thead>
+                    <tr className="text-slate-400">
+                      <th className="text-left font-normal">{view === 'stiffness' ? '∂load/∂' : '∂pose/∂'}</th>
+                      {cols.map(c => <th key={c} className="text-right font-semibold">{c}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((rowLabel, i) => (
+                      <tr key={rowLabel}>
+                        <td className="text-slate-400 font-semibold">{rowLabel}</td>
+                        {cols.map((_, j) => (
+                          <td key={j} className="text-right text-slate-700">{entry(i, j).toExponential(2)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="py-4 text-center text-[11px] text-slate-400 italic">
+                  Compliance is singular: this model cannot move x, y and θ₀ independently.
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-4 border-t text-xs text-slate-400 italic leading-relaxed">
+        *Tangent matrices at the current loads by central differences; units are {isMetric ? 'm, rad, N and N-m' : 'in, rad, lbf and lbf-in'}. Strain energy is ∫M²/2EI ds for beam models and ½ΣKΘ² over the PRB springs; percentages compare with the nonlinear solution.
+      </div>
+    </div>
+  );
+};
+
+export default StiffnessPanel;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { BeamResult, UnitSystem } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceDot } from 'recharts';
+import { Zap } from 'lucide-react';
+
+interface StressChartProps {
+  results: BeamResult[];
+  unitSystem: UnitSystem;
+}
+
+const StressChart: React.FC<StressChartProps> = ({ results, unitSystem }) => {
+  const isMetric = unitSystem === UnitSystem.METRIC;
+  const lengthScale = isMetric ? 1 : 1 / 0.0254;
+  const lengthUnit = isMetric ? 'm' : 'in';
+  const stressScale = isMetric ? 1e-6 : 1 / 6.89476e6;
+  const stressUnit = isMetric ? 'MPa' : 'ksi';
+
+  // Models sample the arc length differently, so each line carries its own data
+  const series = results.filter(r => r.stress.length > 0).map(r => {
+    const data = r.stress.map(p => ({
+      s: parseFloat((p.s * lengthScale).toFixed(5)),
+      sigma: parseFloat((p.sigma * stressScale).toFixed(4))
+    }));
+    const peak = data.reduce((best, p) => (Math.abs(p.sigma) > Math.abs(best.sigma) ? p : best), data[0]);
+    return { result: r, data, peak };
+  });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-slate-200">
+      <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
+        <Zap size={18} className="text-blue-600" />
+        Bending Stress Distribution ({stressUnit})
+      </h3>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart margin={{ top: 10, right: 30, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="s"
+              type="number"
+              domain={[0, 'dataMax']}
+              fontSize={10}
+              allowDuplicatedCategory={false}
+              label={{ value: `Arc length s (${lengthUnit})`, position: 'insideBottom', offset: -5, fontSize: 10 }}
+            />
+            <YAxis fontSize={10} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+              itemStyle={{ color: '#94a3b8' }}
+              labelFormatter={(v) => `s = ${v} ${lengthUnit}`}
+            />
+            <Legend verticalAlign="top" height={36} />
+            {series.map(({ result, data }) => (
+              <Line
+                key={result.label}
+                data={data}
+                type="monotone"
+                dataKey="sigma"
+                name={result.label}
+                stroke={result.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {series.map(({ result, peak }) => (
+              <ReferenceDot
+                key={`${result.label}-peak`}
+                x={peak.s}
+                y={peak.sigma}
+                r={5}
+                fill={result.color}
+                stroke="#fff"
+                strokeWidth={2}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 pt-4 border-t grid grid-cols-2 md:grid-cols-3 gap-2 text-[11px]">
+        {series.map(({ result, peak }) => (
+          <div key={result.label} className="flex items-center justify-between gap-2 px-2 py-1 bg-slate-50 rounded border border-slate-100">
+            <span className="flex items-center gap-1.5 text-slate-600">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: result.color }} />
+              {result.label}
+            </span>
+            <span className="font-mono text-slate-700">
+              {Math.abs(peak.sigma).toFixed(2)} @ {peak.s.toFixed(isMetric ? 3 : 2)}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 text-xs text-slate-400 italic leading-relaxed">
+        *Outer-fibre stress σ = Mc/I. PRB models recover M from the tip loads and the deformed PRB geometry; the flexural pivot shows the flexure only. Dots mark each model's peak |σ|.
+      </div>
+    </div>
+  );
+};
+
+export default StressChart;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { SectionTaper, TaperType, TaperStation, SectionSample } from '../types';
+import { taperError } from '../services/sectionProperties';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface TaperEditorProps {
+  taper: SectionTaper;
+  setTaper: (t: SectionTaper) => void;
+  profile?: SectionSample[];
+}
+
+const TaperEditor: React.FC<TaperEditorProps> = ({ taper, setTaper, profile }) => {
+  // Ratios the solver would reject stay here, flagged by field, instead of reaching the model
+  const [rejected, setRejected] = useState<Record<string, string>>({});
+  const error = taperError(taper);
+
+  const reject = (field: string, value: string) => setRejected(prev => ({ ...prev, [field]: value }));
+  const clearRejected = (field: string) => setRejected(({ [field]: _, ...rest }) => rest);
+
+  const handleTipChange = (name: 'tipWidth' | 'tipHeight', value: string) => {
+    const val = parseFloat(value);
+    if (isNaN(val) || val <= 0) {
+      reject(name, value);
+      return;
+    }
+    clearRejected(name);
+    setTaper({ ...taper, [name]: val });
+  };
+
+  const handleStationChange = (idx: number, name: keyof TaperStation, value: string) => {
+    const val = parseFloat(value);
+    // A station may sit at the root, but its ratios must be positive
+    if (isNaN(val) || val < 0 || (name !== 's' && val === 0)) {
+      reject(`${idx}.${name}`, value);
+      return;
+    }
+    clearRejected(`${idx}.${name}`);
+    // Positions are entered in percent of L
+    const next = name === 's' ? Math.min(1, val / 100) : val;
+    setTaper({ ...taper, stations: taper.stations.map((st, i) => (i === idx ? { ...st, [name]: next } : st)) });
+  };
+
+  const addStation = () => {
+    const last = taper.stations[taper.stations.length - 1];
+    const station = last ? { ...last, s: Math.min(1, last.s + 0.1) } : { s: 0, width: 1, height: 1 };
+    setTaper({ ...taper, stations: [...taper.stations, station] });
+  };
+
+  const removeStation = (idx: number) => {
+    if (taper.stations.length <= 2) return;
+    setRejected({});
+    setTaper({ ...taper, stations: taper.stations.filter((_, i) => i !== idx) });
+  };
+
+  const onInputFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  const inputClass = "w-full px-1 py-0.5 text-right text-xs border rounded focus:ring-1 focus:ring-blue-500 outline-none font-mono";
+  const fieldClass = (field: string) => `${inputClass} ${rejected[field] !== undefined ? 'border-red-400 text-red-600' : ''}`;
+  const stiffnessRatio = profile ? profile[profile.length - 1].I / profile[0].I : 1;
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2 mb-4">
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Taper Along Length (Nonlinear)</div>
+      <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-lg">
+        {Object.values(TaperType).map(t => (
+          <button
+            key={t}
+            onClick={() => setTaper({ ...taper, type: t })}
+            className={`flex-1 px-1 py-1 text-[10px] font-semibold rounded-md transition-all ${taper.type === t ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+
+      {(taper.type === TaperType.LINEAR || taper.type === TaperType.PARABOLIC) && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-[10px] font-medium text-slate-600 mb-0.5">Tip b / root b</label>
+            <input type="number" value={rejected.tipWidth ?? taper.tipWidth} onChange={(e) => handleTipChange('tipWidth', e.target.value)} onFocus={onInputFocus} onBlur={() => clearRejected('tipWidth')} className={fieldClass('tipWidth')} min="0" step="any" />
+          </div>
+          <div>
+            <label className="block text-[10px] font-medium text-slate-600 mb-0.5">Tip h / root h</label>
+            <input type="number" value={rejected.tipHeight ?? taper.tipHeight} onChange={(e) => handleTipChange('tipHeight', e.target.value)} onFocus={onInputFocus} onBlur={() => clearRejected('tipHeight')} className={fieldClass('tipHeight')} min="0" step="any" />
+          </div>
+        </div>
+      )}
+
+      {taper.type === TaperType.TABLE && (
+        <div className="space-y-1">
+          <div className="grid grid-cols-12 gap-1 text-[10px] text-slate-500 font-semibold">
+            <span className="col-span-4 text-right">s [% L]</span>
+            <span className="col-span-3 text-right">b ratio</span>
+            <span className="col-span-4 text-right">h ratio</span>
+          </div>
+          {taper.stations.map((st, i) => (
+            <div key={i} className="grid grid-cols-12 gap-1 items-center">
+              <div className="col-span-4">
+                <input type="number" value={rejected[`${i}.s`] ?? Number((st.s * 100).toFixed(2))} onChange={(e) => handleStationChange(i, 's', e.target.value)} onFocus={onInputFocus} onBlur={() => clearRejected(`${i}.s`)} className={fieldClass(`${i}.s`)} min="0" step="any" />
+              </div>
+              <div className="col-span-3">
+                <input type="number" value={rejected[`${i}.width`] ?? st.width} onChange={(e) => handleStationChange(i, 'width', e.target.value)} onFocus={onInputFocus} onBlur={() => clearRejected(`${i}.width`)} className={fieldClass(`${i}.width`)} min="0" step="any" />
+              </div>
+              <div className="col-span-4">
+                <input type="number" value={rejected[`${i}.height`] ?? st.height} onChange={(e) => handleStationChange(i, 'height', e.target.value)} onFocus={onInputFocus} onBlur={() => clearRejected(`${i}.height`)} className={fieldClass(`${i}.height`)} min="0" step="any" />
+              </div>
+              <button
+                onClick={() => removeStation(i)}
+                disabled={taper.stations.length <= 2}
+                className="col-span-1 flex justify-center text-slate-400 hover:text-red-500 disabled:opacity-30"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addStation}
+            className="flex items-center gap-1 px-2 py-0.5 bg-white border border-slate-200 rounded text-[10px] font-semibold text-slate-600 hover:bg-slate-100"
+          >
+            <Plus size={12} /> Station
+          </button>
+        </div>
+      )}
+
+      {(Object.keys(rejected).length > 0 || error) && (
+        <p className="text-[10px] text-red-600">
+          {Object.keys(rejected).length > 0 ? 'Ratios must be positive and positions not negative; the previous value is kept.' : error}
+        </p>
+      )}
+
+      {profile && (
+        <div className="flex justify-between text-[10px] text-slate-500 font-mono pt-1 border-t border-slate-200">
+          <span>I_tip / I_root: {stiffnessRatio.toFixed(3)}</span>
+          <span className="italic">PRB & linear use root I</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaperEditor;
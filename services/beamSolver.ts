@@ -1,89 +1,454 @@
 
-import { BeamParams, Point, BeamResult, BeamModelType, PrbParameters } from '../types';
+import { ArcLengthOptions, NewtonResult, pathSolve } from './newton';
+import { BeamParams, Point, BeamResult, BeamModelType, PrbParameters, StressPoint, BoundaryCondition, SegmentKind, LoadMode, GravityDirection } from '../types';
+import { interpolateProfile } from './sectionProperties';
+import { prbValidity } from './prbValidity';
+import { cantileverForceParameters, loadRatio } from './prbParameters';
 
 /**
- * Solves the Bernoulli-Euler beam equation using RK4 numerical integration.
+ * Tip of an unstressed circular arc of length L and curvature κ₀, tangent to the x-axis at the root.
  */
-export function solveNonlinearBeam(params: BeamParams): BeamResult {
+export function curvedTip(L: number, kappa0: number): Point {
+  if (Math.abs(kappa0 * L) < 1e-9) return { x: L, y: 0 };
+  return { x: Math.sin(kappa0 * L) / kappa0, y: (1 - Math.cos(kappa0 * L)) / kappa0 };
+}
+
+/**
+ * Tip loads rotated by ψ, the tip rotation from the unstressed shape. A follower load
+ * keeps its angle to the tip tangent; P acts along +y and nP along −x before rotation.
+ */
+export function rotateTipLoads(P: number, nP: number, psi: number): { P: number; nP: number } {
+  const c = Math.cos(psi);
+  const s = Math.sin(psi);
+  return { P: P * c - nP * s, nP: nP * c + P * s };
+}
+
+const diagnostics = (solution: NewtonResult) => ({
+  converged: solution.converged,
+  iterations: solution.iterations,
+  residual: solution.residual
+});
+
+/**
+ * Placeholder for a model whose inputs can't be solved: no shape, unconverged,
+ * and out of range with the reason as its warning.
+ */
+const rejectedResult = (label: string, color: string, reason: string): BeamResult => ({
+  points: [], tipX: 0, tipY: 0, tipAngle: 0, maxStress: 0, stress: [], strainEnergy: 0,
+  label, color,
+  converged: false, iterations: 0, residual: Infinity,
+  validity: { valid: false, warnings: [reason] }
+});
+
+// Every solver divides by EI, so a zero (or negative) E or section can't be solved
+const STIFFNESS_ERROR = 'The bending stiffness must be positive (EI > 0).';
+
+/**
+ * Why a custom nR parameter set can't be solved, or undefined when it can.
+ * Each joint needs a link and a positive stiffness coefficient K_c.
+ */
+export function prbParameterError(prb: PrbParameters): string | undefined {
+  const coeffs = prb.stiffness_coeffs ?? [];
+  const n = Math.min((prb.links?.length ?? 0) - 1, coeffs.length);
+  if (n < 1) return 'The model needs at least one joint.';
+  if (coeffs.slice(0, n).some(kc => !(kc > 0))) return 'Stiffness coefficients K_c must be positive.';
+  return undefined;
+}
+
+/**
+ * Why a flexural pivot's geometry can't be solved, or undefined when it can.
+ * The flexure needs a positive length; the rigid link may be absent but not negative.
+ */
+export function flexuralPivotError(flexLength: number, rigidLength: number): string | undefined {
+  if (!(flexLength > 0)) return 'The flexure length must be positive.';
+  if (!(rigidLength >= 0)) return 'The rigid link length can\'t be negative.';
+  return undefined;
+}
+
+/**
+ * Number of load increments for continuation, about one per 0.5 of
+ * non-dimensional load (PL²/EI, M0·L/EI, qL³/2EI).
+ */
+const loadIncrements = (params: BeamParams) => {
   const { E, I, L, P, nP, M0 } = params;
   const EI = E * I;
-  
-  if (EI === 0) return { points: [], tipX: 0, tipY: 0, tipAngle: 0, maxStress: 0, label: 'Nonlinear', color: '#ef4444' };
+  const { fx, fy } = distributedLoad(params);
+  const load = (Math.abs(P) + Math.abs(nP) + (Math.abs(fx) + Math.abs(fy)) * L / 2) * L * L / EI + Math.abs(M0) * L / EI;
+  return Math.min(40, Math.max(1, Math.ceil(load / 0.5)));
+};
+
+// Arc-length settings for following the loading path to λ = 1 (see `pathSolve`)
+const LOADING_PATH: ArcLengthOptions = {
+  initialStep: 0.05,
+  maxStep: 0.25,
+  minStep: 1e-4,
+  maxSteps: 400,
+  lambdaMin: -0.25,
+  lambdaMax: 1,
+  tolerance: 1e-10
+};
+
+/**
+ * Solves for the angle Θ of a single PRB link of length r whose spring (total
+ * stiffness K, relaxed at Θ_rest) balances tip loads P, nP and M0. The residual is
+ * normalised by K so it reads in radians. A non-zero `followerFactor` rotates the
+ * loads with the tip, by followerFactor·(Θ − Θ_rest). The root returned is the one
+ * on the loading path from Θ_rest (see `pathSolve`).
+ */
+const solvePrbAngle = (K: number, r: number, P: number, nP: number, M0: number, Theta_rest: number, increments: number, followerFactor: number = 0) =>
+  pathSolve(
+    ([Theta], lambda) => {
+      const loads = rotateTipLoads(P, nP, followerFactor * (Theta - Theta_rest));
+      return [(K * (Theta - Theta_rest) - lambda * (loads.P * r * Math.cos(Theta) + loads.nP * r * Math.sin(Theta) + M0)) / K];
+    },
+    [Theta_rest],
+    increments,
+    {
+      tolerance: 1e-10,
+      maxIterations: 50,
+      maxStep: 0.5,
+      // Follower loads change with Θ, so their Jacobian is left to finite differences
+      jacobian: followerFactor !== 0
+        ? undefined
+        : ([Theta], lambda) => [[(K + lambda * (P * r * Math.sin(Theta) - nP * r * Math.cos(Theta))) / K]]
+    },
+    LOADING_PATH
+  );
+
+interface PrbRoot {
+  Theta: number;
+  stable?: boolean;  // Undefined for follower loads, which are not conservative
+  residual: number;
+}
+
+/**
+ * Every equilibrium angle of the single-link problem in `solvePrbAngle` at full
+ * load. The load term is bounded by |F|r + |M0|, so all roots lie within that
+ * distance (over K) of Θ_rest; the interval is scanned for sign changes and each
+ * one is refined by bisection. A root is stable when the residual rises through
+ * it, i.e. the spring outgrows the load stiffness.
+ */
+const prbAngleRoots = (K: number, r: number, P: number, nP: number, M0: number, Theta_rest: number, followerFactor: number = 0): PrbRoot[] => {
+  const f = (Theta: number) => {
+    const loads = rotateTipLoads(P, nP, followerFactor * (Theta - Theta_rest));
+    return (K * (Theta - Theta_rest) - (loads.P * r * Math.cos(Theta) + loads.nP * r * Math.sin(Theta) + M0)) / K;
+  };
+  const span = (Math.hypot(P, nP) * r + Math.abs(M0)) / K * 1.01 + 1e-9;
+  const samples = Math.min(2000, Math.max(50, Math.ceil(2 * span / 0.01)));
+  const roots: PrbRoot[] = [];
+  let a = Theta_rest - span;
+  let fa = f(a);
+
+  for (let i = 1; i <= samples; i++) {
+    const b = Theta_rest - span + (2 * span * i) / samples;
+    const fb = f(b);
+    if (fa === 0 || fa * fb < 0) {
+      let lo = a;
+      let hi = b;
+      let flo = fa;
+      for (let k = 0; k < 60 && flo !== 0; k++) {
+        const mid = (lo + hi) / 2;
+        const fm = f(mid);
+        if (Math.sign(fm) === Math.sign(flo)) { lo = mid; flo = fm; } else { hi = mid; }
+      }
+      const Theta = flo === 0 ? lo : (lo + hi) / 2;
+      roots.push({ Theta, stable: followerFactor !== 0 ? undefined : fb > fa, residual: Math.abs(f(Theta)) });
+    }
+    a = b;
+    fa = fb;
+  }
+  return roots;
+};
+
+/**
+ * The Newton solution at spring angle Θ with the other equilibria of the same
+ * loads as alternates. `build` turns an angle into a result.
+ */
+const withAlternates = (
+  Theta: number,
+  solution: NewtonResult,
+  roots: PrbRoot[],
+  build: (Theta: number, solution: Pick<BeamResult, 'converged' | 'iterations' | 'residual'>) => BeamResult
+): BeamResult => {
+  const tolerance = 1e-6;
+  const own = roots.find(root => Math.abs(root.Theta - Theta) < tolerance);
+  const others = roots.filter(root => root !== own);
+  return {
+    ...build(Theta, diagnostics(solution)),
+    stable: own?.stable,
+    alternates: others.length > 0
+      ? others.map(root => ({ ...build(root.Theta, { converged: true, iterations: 0, residual: root.residual }), stable: root.stable }))
+      : undefined
+  };
+};
+
+/**
+ * Tip-rotation factor for `solvePrbAngle`: the PRB tip turns c_θ·Θ, and loads only
+ * follow it in follower mode.
+ */
+const followerFactorFor = (params: BeamParams, c_theta: number) =>
+  params.loadMode === LoadMode.FOLLOWER ? c_theta : 0;
+
+/**
+ * PRB stress recovery: the bending moment at a point on the deformed beam is the
+ * moment of the tip loads about it, with the lever arms taken from the PRB
+ * geometry the spring angles produce. `path` is the flexible part of the PRB
+ * polyline, mapped by length fraction onto arc lengths 0..length. `tipMoment`
+ * is the end moment (M0, or the guide reaction).
+ */
+const prbStress = (params: BeamParams, path: Point[], length: number, tip: Point, loads: { P: number; nP: number }, tipMoment: number): StressPoint[] => {
+  const spans = path.slice(1).map((p, i) => Math.hypot(p.x - path[i].x, p.y - path[i].y));
+  const total = spans.reduce((acc, l) => acc + l, 0);
+  const samples = 50;
+  const stress: StressPoint[] = [];
+  let span = 0;
+  let start = 0;
+  for (let i = 0; i <= samples; i++) {
+    const d = (i / samples) * total;
+    while (span < spans.length - 1 && d > start + spans[span]) start += spans[span++];
+    const t = spans[span] > 0 ? Math.min(1, (d - start) / spans[span]) : 0;
+    const x = path[span].x + t * (path[span + 1].x - path[span].x);
+    const y = path[span].y + t * (path[span + 1].y - path[span].y);
+    const M = loads.P * (tip.x - x) + loads.nP * (tip.y - y) + tipMoment;
+    stress.push({ s: (i / samples) * length, sigma: M * params.c / params.I });
+  }
+  return stress;
+};
+
+const peakStress = (stress: StressPoint[]) => Math.max(0, ...stress.map(p => Math.abs(p.sigma)));
+
+const GRAVITY = 9.80665; // m/s^2
+
+const GRAVITY_DIRECTIONS: Record<GravityDirection, Point> = {
+  [GravityDirection.OFF]: { x: 0, y: 0 },
+  [GravityDirection.NEG_Y]: { x: 0, y: -1 },
+  [GravityDirection.POS_Y]: { x: 0, y: 1 },
+  [GravityDirection.NEG_X]: { x: -1, y: 0 },
+  [GravityDirection.POS_X]: { x: 1, y: 0 }
+};
+
+/**
+ * Distributed force per unit arc length (N/m) from the uniform load q (along +y,
+ * like P) and the self-weight ρAg along the selected gravity direction.
+ */
+export function distributedLoad(params: BeamParams): { fx: number; fy: number } {
+  const w = params.density * params.A * GRAVITY;
+  const g = GRAVITY_DIRECTIONS[params.gravity];
+  return { fx: w * g.x, fy: params.q + w * g.y };
+}
+
+/**
+ * Section properties at arc length s and the area of the beam beyond s (which
+ * carries the self-weight). Uniform beams use the constant I, c and A; tapered
+ * beams interpolate their profile.
+ */
+const sectionLookup = (params: BeamParams) => {
+  const { L, profile } = params;
+  if (!profile || profile.length < 2) {
+    const uniform = { I: params.I, c: params.c, A: params.A };
+    return { at: (_s: number) => uniform, tailArea: (s: number) => params.A * (L - s) };
+  }
+  // Cumulative area from the root at each profile station (A is linear between them)
+  const h = L / (profile.length - 1);
+  const cumulative = [0];
+  for (let i = 1; i < profile.length; i++) cumulative.push(cumulative[i - 1] + h * (profile[i - 1].A + profile[i].A) / 2);
+  const total = cumulative[cumulative.length - 1];
+  return {
+    at: (s: number) => interpolateProfile(profile, s / L),
+    tailArea: (s: number) => {
+      const x = Math.min(Math.max(s / h, 0), profile.length - 1);
+      const i = Math.min(Math.floor(x), profile.length - 2);
+      const d = (x - i) * h;
+      const A0 = profile[i].A;
+      const A1 = profile[i + 1].A;
+      return total - (cumulative[i] + d * (A0 + (A0 + (A1 - A0) * d / h)) / 2);
+    }
+  };
+};
+
+/**
+ * Shooting formulation of the Bernoulli-Euler beam equation, integrated with RK4:
+ * dθ/ds = κ₀ + M/EI(s) together with the moment balance dM/ds = −(cosθ·V_y − sinθ·V_x),
+ * where V(s) is the resultant of the tip force and the distributed load beyond s.
+ * An initially curved beam therefore starts from its unstressed arc, and
+ * distributed loads stay exact at large deflection. Tapered beams take I(s),
+ * c(s) and A(s) from `params.profile`.
+ *
+ * The unknowns u are the root moment as M·L/EI and, in follower mode, the tip
+ * rotation ψ. `residual(u, λ)` vanishes when the tip carries λ·M0 (or, with
+ * `guided` set, stays at its initial slope so the end moment becomes a reaction)
+ * under the loads scaled by λ. `solve` finds u at λ = 1 on the loading path from
+ * the unloaded beam and `result` builds the full solution from it.
+ * Requires EI > 0.
+ */
+export function nonlinearShooting(params: BeamParams, guided: boolean = false) {
+  const { E, I, L, P, nP, kappa0 } = params;
+  const EI = E * I;
+  const label = guided ? 'Nonlinear (Guided)' : 'Nonlinear';
+  const color = guided ? '#f43f5e' : '#ef4444'; // Rose / Red
+  const boundary = guided ? BoundaryCondition.FIXED_GUIDED : BoundaryCondition.CANTILEVER;
 
-  let a = L; 
-  let b = 0; 
-  let points: Point[] = [];
-  let finalTheta = 0;
-  
   const steps = 100;
   const ds = L / steps;
+  const section = sectionLookup(params);
+  const g = GRAVITY_DIRECTIONS[params.gravity];
+  const weight = params.density * GRAVITY;
 
-  for (let iter = 0; iter < 15; iter++) {
-    points = [{ x: 0, y: 0 }];
+  // Integrates from the root for a root moment and tip loads (solver convention:
+  // the tip force is (−nP, P)), with the distributed load scaled by λ
+  const integrate = (rootMoment: number, tipP: number, tipNP: number, lambda: number) => {
+    const points: Point[] = [{ x: 0, y: 0 }];
+    const moments: number[] = [rootMoment];
     let x = 0;
     let y = 0;
     let theta = 0;
+    let M = rootMoment;
 
-    for (let i = 0; i < steps; i++) {
-      const getDerivatives = (cx: number, cy: number, ct: number) => {
-        const M = P * (a - cx) + nP * (b - cy) + M0;
-        return { dx: Math.cos(ct), dy: Math.sin(ct), dt: M / EI };
+    const getDerivatives = (s: number, ct: number, cM: number) => {
+      const tailWeight = weight * section.tailArea(s);
+      const Vx = -tipNP + lambda * tailWeight * g.x;
+      const Vy = tipP + lambda * (params.q * (L - s) + tailWeight * g.y);
+      return {
+        dx: Math.cos(ct),
+        dy: Math.sin(ct),
+        dt: kappa0 + cM / (E * section.at(s).I),
+        dM: -(Math.cos(ct) * Vy - Math.sin(ct) * Vx)
       };
+    };
 
-      const k1 = getDerivatives(x, y, theta);
-      const k2 = getDerivatives(x + k1.dx * ds / 2, y + k1.dy * ds / 2, theta + k1.dt * ds / 2);
-      const k3 = getDerivatives(x + k2.dx * ds / 2, y + k2.dy * ds / 2, theta + k2.dt * ds / 2);
-      const k4 = getDerivatives(x + k3.dx * ds, y + k3.dy * ds, theta + k3.dt * ds);
+    for (let i = 0; i < steps; i++) {
+      const s = i * ds;
+      const k1 = getDerivatives(s, theta, M);
+      const k2 = getDerivatives(s + ds / 2, theta + k1.dt * ds / 2, M + k1.dM * ds / 2);
+      const k3 = getDerivatives(s + ds / 2, theta + k2.dt * ds / 2, M + k2.dM * ds / 2);
+      const k4 = getDerivatives(s + ds, theta + k3.dt * ds, M + k3.dM * ds);
 
       x += (ds / 6) * (k1.dx + 2 * k2.dx + 2 * k3.dx + k4.dx);
       y += (ds / 6) * (k1.dy + 2 * k2.dy + 2 * k3.dy + k4.dy);
       theta += (ds / 6) * (k1.dt + 2 * k2.dt + 2 * k3.dt + k4.dt);
+      M += (ds / 6) * (k1.dM + 2 * k2.dM + 2 * k3.dM + k4.dM);
       
       points.push({ x, y });
+      moments.push(M);
     }
+    return { points, moments, theta, tipMoment: M };
+  };
 
-    finalTheta = theta;
-    const last = points[points.length - 1];
-    const errorX = last.x - a;
-    const errorY = last.y - b;
-    if (Math.abs(errorX) < 1e-6 && Math.abs(errorY) < 1e-6) break;
-    a += errorX * 0.5;
-    b += errorY * 0.5;
-  }
+  // A guided tip cannot rotate, so a follower load there acts like a fixed one
+  const follower = params.loadMode === LoadMode.FOLLOWER && !guided;
 
-  const tip = points[points.length - 1];
-  return {
-    points,
-    tipX: tip.x,
-    tipY: tip.y,
-    tipAngle: finalTheta,
-    maxStress: Math.abs((P * a + nP * b + M0) * params.c / I),
-    label: 'Nonlinear',
-    color: '#ef4444' // Red
+  // Shooting unknowns, scaled to O(1): the root moment as M·L/EI, then (follower only) the tip rotation ψ
+  const unpack = (u: number[], lambda: number) => {
+    const psi = follower ? u[1] : 0;
+    const loads = rotateTipLoads(P, nP, psi);
+    return { rootMoment: u[0] * EI / L, tipP: lambda * loads.P, tipNP: lambda * loads.nP, psi };
+  };
+  const residual = (u: number[], lambda: number) => {
+    const { rootMoment, tipP, tipNP, psi } = unpack(u, lambda);
+    const { theta, tipMoment } = integrate(rootMoment, tipP, tipNP, lambda);
+    // The guide holds the tip at its unstressed slope κ₀L; a free tip carries M0
+    const r = [guided ? theta - kappa0 * L : (tipMoment - lambda * params.M0) * L / EI];
+    if (follower) r.push(theta - kappa0 * L - psi);
+    return r;
+  };
+
+  // Deformed shape for unknowns u at load factor λ
+  const shape = (u: number[], lambda: number) => {
+    const { rootMoment, tipP, tipNP } = unpack(u, lambda);
+    return integrate(rootMoment, tipP, tipNP, lambda);
+  };
+
+  const result = (u: number[], solution: Pick<BeamResult, 'converged' | 'iterations' | 'residual'>): BeamResult => {
+    const { points, moments, theta } = shape(u, 1);
+    const stress = moments.map((M, i) => {
+      const local = section.at(i * ds);
+      return { s: i * ds, sigma: M * local.c / local.I };
+    });
+    // U = ∫M²/2EI ds by the trapezoidal rule; M is the moment beyond the unstressed curvature
+    const energyDensity = moments.map((M, i) => M * M / (2 * E * section.at(i * ds).I));
+    const strainEnergy = energyDensity.slice(1).reduce((acc, e, i) => acc + (e + energyDensity[i]) * ds / 2, 0);
+
+    const tip = points[points.length - 1];
+    return {
+      points,
+      tipX: tip.x,
+      tipY: tip.y,
+      tipAngle: theta,
+      maxStress: peakStress(stress),
+      stress,
+      strainEnergy,
+      label,
+      color,
+      boundary,
+      ...solution
+    };
   };
+
+  const u0 = follower ? [0, 0] : [0];
+  // The equilibrium reached by loading the unloaded beam
+  const solve = () => pathSolve(residual, u0, loadIncrements(params), { tolerance: 1e-9, maxIterations: 50, maxStep: 0.25 }, { ...LOADING_PATH, tolerance: 1e-9 });
+
+  return { residual, u0, follower, solve, shape, result, label, color };
+}
+
+/**
+ * Solves the large-deflection beam by Newton shooting (see `nonlinearShooting`),
+ * following the loading path from the unloaded state by arc-length continuation so
+ * that past buckling it reports the equilibrium the beam actually loads into.
+ * `traceEquilibriumPath` finds the other branches.
+ */
+export function solveNonlinearBeam(params: BeamParams, guided: boolean = false): BeamResult {
+  const { E, I } = params;
+  if (!(E * I > 0)) {
+    return {
+      ...rejectedResult(guided ? 'Nonlinear (Guided)' : 'Nonlinear', guided ? '#f43f5e' : '#ef4444', STIFFNESS_ERROR),
+      boundary: guided ? BoundaryCondition.FIXED_GUIDED : BoundaryCondition.CANTILEVER
+    };
+  }
+
+  const shooting = nonlinearShooting(params, guided);
+  const solution = shooting.solve();
+  return shooting.result(solution.u, diagnostics(solution));
 }
 
 export function solveLinearBeam(params: BeamParams): BeamResult {
   const { E, I, L, P, M0 } = params;
   const EI = E * I;
+  if (!(EI > 0)) return rejectedResult('Linear', '#3b82f6', STIFFNESS_ERROR);
+  // Only the transverse part of the distributed load bends a small-deflection beam
+  const { fy: w } = distributedLoad(params);
   const points: Point[] = [];
+  const stress: StressPoint[] = [];
   const steps = 50;
   
   for (let i = 0; i <= steps; i++) {
     const x = (i / steps) * L;
-    const y = (P * Math.pow(x, 2) / (6 * EI)) * (3 * L - x) + (M0 * Math.pow(x, 2)) / (2 * EI);
+    const y = (P * Math.pow(x, 2) / (6 * EI)) * (3 * L - x) + (M0 * Math.pow(x, 2)) / (2 * EI)
+      + (w * Math.pow(x, 2) / (24 * EI)) * (6 * L * L - 4 * L * x + x * x);
     points.push({ x, y });
+    const M = P * (L - x) + M0 + w * Math.pow(L - x, 2) / 2;
+    stress.push({ s: x, sigma: M * params.c / I });
   }
+  const strainEnergy = stress.slice(1).reduce((acc, p, i) => {
+    const M1 = stress[i].sigma * I / params.c;
+    const M2 = p.sigma * I / params.c;
+    return acc + (M1 * M1 + M2 * M2) / (4 * EI) * (p.s - stress[i].s);
+  }, 0);
 
   const tip = points[points.length - 1];
   return {
     points,
     tipX: L,
     tipY: tip.y,
-    tipAngle: (P * L * L) / (2 * EI) + (M0 * L) / EI,
-    maxStress: Math.abs((P * L + M0) * params.c / I),
+    tipAngle: (P * L * L) / (2 * EI) + (M0 * L) / EI + (w * L * L * L) / (6 * EI),
+    maxStress: peakStress(stress),
+    stress,
+    strainEnergy,
     label: 'Linear',
-    color: '#3b82f6' // Blue
+    color: '#3b82f6', // Blue
+    converged: true,
+    iterations: 0,
+    residual: 0
   };
 }
 
@@ -93,7 +458,6 @@ export function solvePRB1R(params: BeamParams, type: BeamModelType): BeamResult
   let gamma = 0.85;
   let K_theta = 2.65;
   let c_theta = 1.24; 
-  let n = P !== 0 ? nP / P : 0;
   let label = "";
   let color = "";
 
@@ -104,15 +468,8 @@ export function solvePRB1R(params: BeamParams, type: BeamModelType): BeamResult
     label = "PRB 1R (P)";
     color = "#22c55e"; // Bright Green
   } else if (type === BeamModelType.PRB_1R_CANTILEVER_PNP) {
-    if (n > -1.83) {
-      gamma = 0.8521 - 0.0183 * n;
-      K_theta = 2.65;
-    } else {
-      gamma = 0.9123 + 0.0146 * n;
-      K_theta = 2.65;
-    }
-    gamma = Math.max(0.7, Math.min(0.95, gamma));
-    c_theta = 1.24; 
+    // Interpolated from the Handbook tables; n beyond them takes the end values
+    ({ gamma, K_theta, c_theta } = cantileverForceParameters(loadRatio(P, nP)));
     label = "PRB 1R (nP)";
     color = "#f59e0b"; // Amber / Orange
   } else if (type === BeamModelType.PRB_1R_MOMENT) {
@@ -123,83 +480,334 @@ export function solvePRB1R(params: BeamParams, type: BeamModelType): BeamResult
     color = "#ec4899"; // Pink
   }
 
+  if (!(EI > 0)) return rejectedResult(label, color, STIFFNESS_ERROR);
   const K = gamma * K_theta * (EI / L);
-  let Theta = 0;
-  for (let i = 0; i < 30; i++) {
-    const f = K * Theta - (P * gamma * L * Math.cos(Theta) + nP * gamma * L * Math.sin(Theta) + M0);
-    const df = K + P * gamma * L * Math.sin(Theta) - nP * gamma * L * Math.cos(Theta);
-    const delta = f / df;
-    Theta -= delta * 0.8;
-    if (Math.abs(delta) < 1e-8) break;
+  const followerFactor = followerFactorFor(params, c_theta);
+  const solution = solvePrbAngle(K, gamma * L, P, nP, M0, 0, loadIncrements(params), followerFactor);
+  const roots = prbAngleRoots(K, gamma * L, P, nP, M0, 0, followerFactor);
+
+  return withAlternates(solution.u[0], solution, roots, (Theta, status) => {
+    const a = L * (1 - gamma) + gamma * L * Math.cos(Theta);
+    const b = gamma * L * Math.sin(Theta);
+    const points = [{ x: 0, y: 0 }, { x: L * (1 - gamma), y: 0 }, { x: a, y: b }];
+    const stress = prbStress(params, points, L, { x: a, y: b }, rotateTipLoads(P, nP, followerFactor * Theta), M0);
+
+    return {
+      points,
+      tipX: a,
+      tipY: b,
+      tipAngle: c_theta * Theta,
+      maxStress: peakStress(stress),
+      stress,
+      strainEnergy: 0.5 * K * Theta * Theta,
+      label,
+      color,
+      ...status,
+      validity: prbValidity(type, params, Theta),
+      prbParams: { 
+        gamma, 
+        k_theta: K_theta, 
+        c_theta,
+        stiffness_physicals: [K]
+      }
+    };
+  });
+}
+
+/**
+ * Fixed-guided beam (Handbook A.1.4): two characteristic pivots a distance
+ * (1 - γ)L/2 from each end keep the guided end parallel to the fixed end, with
+ * K = 2γK_Θ(EI/L) at each pivot.
+ */
+export function solvePRB1RFixedGuided(params: BeamParams): BeamResult {
+  const { E, I, L, P, nP } = params;
+  const EI = E * I;
+  if (!(EI > 0)) {
+    return { ...rejectedResult('PRB 1R (Guided)', '#14b8a6', STIFFNESS_ERROR), boundary: BoundaryCondition.FIXED_GUIDED };
   }
+  const gamma = 0.85;
+  const K_theta = 2.65;
+  const K = 2 * gamma * K_theta * (EI / L);
 
-  const a = L * (1 - gamma) + gamma * L * Math.cos(Theta);
-  const b = gamma * L * Math.sin(Theta);
+  // Both springs deflect by Θ, so the stored energy is 2 · ½KΘ²; the guide carries M0.
+  // The guided tip never rotates, so follower and fixed loads coincide.
+  const solution = solvePrbAngle(2 * K, gamma * L, P, nP, 0, 0, loadIncrements(params));
+  const roots = prbAngleRoots(2 * K, gamma * L, P, nP, 0, 0);
 
-  return {
-    points: [{ x: 0, y: 0 }, { x: L * (1 - gamma), y: 0 }, { x: a, y: b }],
-    tipX: a,
-    tipY: b,
-    tipAngle: c_theta * Theta,
-    maxStress: 0,
-    label,
-    color,
-    prbParams: { 
-      gamma, 
-      k_theta: K_theta, 
-      c_theta,
-      stiffness_physicals: [K]
-    }
-  };
+  return withAlternates(solution.u[0], solution, roots, (Theta, status) => {
+    const p1 = { x: L * (1 - gamma) / 2, y: 0 };
+    const p2 = { x: p1.x + gamma * L * Math.cos(Theta), y: gamma * L * Math.sin(Theta) };
+    const tip = { x: p2.x + L * (1 - gamma) / 2, y: p2.y };
+    const points = [{ x: 0, y: 0 }, p1, p2, tip];
+
+    // By antisymmetry the moment vanishes at mid-length, which fixes the guide reaction
+    const mid = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+    const guideMoment = -(P * (tip.x - mid.x) + nP * (tip.y - mid.y));
+    const stress = prbStress(params, points, L, tip, { P, nP }, guideMoment);
+
+    return {
+      points,
+      tipX: tip.x,
+      tipY: tip.y,
+      tipAngle: 0,
+      maxStress: peakStress(stress),
+      stress,
+      strainEnergy: K * Theta * Theta, // Two springs, each deflected by Θ
+      label: 'PRB 1R (Guided)',
+      color: '#14b8a6', // Teal
+      boundary: BoundaryCondition.FIXED_GUIDED,
+      ...status,
+      validity: prbValidity(BeamModelType.PRB_1R_FIXED_GUIDED, params, Theta),
+      prbParams: {
+        gamma,
+        k_theta: K_theta,
+        stiffness_physicals: [K, K]
+      }
+    };
+  });
 }
 
+/**
+ * Small-length flexural pivot (Handbook A.1.1): a short compliant segment of
+ * length l followed by a rigid link. The pivot sits at the flexure centre with
+ * K = EI/l, and the loads act at the end of the rigid link. Geometry that
+ * `flexuralPivotError` rejects comes back unsolved, with the reason as a warning.
+ */
+export function solvePRB1RFlexuralPivot(params: BeamParams): BeamResult {
+  const { E, I, P, nP, M0, flexLength, rigidLength } = params;
+  const EI = E * I;
+  const invalid = flexuralPivotError(flexLength, rigidLength) ?? (EI > 0 ? undefined : STIFFNESS_ERROR);
+  if (invalid) return rejectedResult('PRB 1R (Pivot)', '#84cc16', invalid);
+  const K = EI / flexLength;
+  const r = flexLength / 2 + rigidLength;
+  const followerFactor = followerFactorFor(params, 1);
+  const solution = solvePrbAngle(K, r, P, nP, M0, 0, loadIncrements(params), followerFactor);
+  const roots = prbAngleRoots(K, r, P, nP, M0, 0, followerFactor);
+
+  return withAlternates(solution.u[0], solution, roots, (Theta, status) => {
+    const pivot = { x: flexLength / 2, y: 0 };
+    const flexEnd = { x: pivot.x + (flexLength / 2) * Math.cos(Theta), y: (flexLength / 2) * Math.sin(Theta) };
+    const tip = { x: pivot.x + r * Math.cos(Theta), y: r * Math.sin(Theta) };
+    // Only the flexure is stressed; the rigid link is assumed strong enough
+    const stress = prbStress(params, [{ x: 0, y: 0 }, pivot, flexEnd], flexLength, tip, rotateTipLoads(P, nP, followerFactor * Theta), M0);
+
+    return {
+      points: [{ x: 0, y: 0 }, pivot, flexEnd, tip],
+      segments: [SegmentKind.FLEXIBLE, SegmentKind.FLEXIBLE, SegmentKind.RIGID],
+      tipX: tip.x,
+      tipY: tip.y,
+      tipAngle: Theta,
+      maxStress: peakStress(stress),
+      stress,
+      strainEnergy: 0.5 * K * Theta * Theta,
+      label: 'PRB 1R (Pivot)',
+      color: '#84cc16', // Lime
+      ...status,
+      validity: prbValidity(BeamModelType.PRB_1R_FLEXURAL_PIVOT, params, Theta),
+      prbParams: {
+        stiffness_physicals: [K]
+      }
+    };
+  });
+}
+
+// Handbook A.1.6 characteristic radius factor ρ and angle coefficient c_θ versus κ₀ = L/R_i
+const CURVED_PRB_TABLE: { kappa0: number; rho: number; c_theta: number }[] = [
+  { kappa0: 0.00, rho: 0.8500, c_theta: 1.2385 },
+  { kappa0: 0.10, rho: 0.8410, c_theta: 1.2430 },
+  { kappa0: 0.25, rho: 0.8275, c_theta: 1.2467 },
+  { kappa0: 0.50, rho: 0.8156, c_theta: 1.2492 },
+  { kappa0: 0.75, rho: 0.8090, c_theta: 1.2511 },
+  { kappa0: 1.00, rho: 0.7979, c_theta: 1.2492 },
+  { kappa0: 1.50, rho: 0.7726, c_theta: 1.2406 },
+  { kappa0: 2.00, rho: 0.7448, c_theta: 1.2322 }
+];
+
+/**
+ * Initially curved cantilever (Handbook A.1.6). The pivot sits (1 - ρ)L along the
+ * root tangent and the PRB link runs from there to the unstressed tip, so the
+ * spring is relaxed at the initial angle Θ_i.
+ */
+export function solvePRB1RCurved(params: BeamParams): BeamResult {
+  const { E, I, L, P, nP, M0, kappa0 } = params;
+  const EI = E * I;
+  const K_theta = 2.25;
+
+  // Table is symmetric in the sign of κ₀; values beyond 2.0 are clamped
+  const k0 = Math.min(Math.abs(kappa0 * L), 2.0);
+  let hi = CURVED_PRB_TABLE.findIndex(row => row.kappa0 >= k0);
+  if (hi <= 0) hi = 1;
+  const lo = CURVED_PRB_TABLE[hi - 1];
+  const up = CURVED_PRB_TABLE[hi];
+  const t = (k0 - lo.kappa0) / (up.kappa0 - lo.kappa0);
+  const rho = lo.rho + t * (up.rho - lo.rho);
+  const c_theta = lo.c_theta + t * (up.c_theta - lo.c_theta);
+
+  const tip0 = curvedTip(L, kappa0);
+  const pivot = { x: L * (1 - rho), y: 0 };
+  const linkLength = Math.hypot(tip0.x - pivot.x, tip0.y - pivot.y);
+  const Theta_i = Math.atan2(tip0.y - pivot.y, tip0.x - pivot.x);
+  const K = rho * K_theta * (EI / L);
+  if (!(K > 0)) return rejectedResult('PRB 1R (Curved)', '#0ea5e9', STIFFNESS_ERROR);
+
+  const followerFactor = followerFactorFor(params, c_theta);
+  const solution = solvePrbAngle(K, linkLength, P, nP, M0, Theta_i, loadIncrements(params), followerFactor);
+  const roots = prbAngleRoots(K, linkLength, P, nP, M0, Theta_i, followerFactor);
+
+  return withAlternates(solution.u[0], solution, roots, (Theta, status) => {
+    const a = pivot.x + linkLength * Math.cos(Theta);
+    const b = pivot.y + linkLength * Math.sin(Theta);
+    const points = [{ x: 0, y: 0 }, pivot, { x: a, y: b }];
+    const stress = prbStress(params, points, L, { x: a, y: b }, rotateTipLoads(P, nP, followerFactor * (Theta - Theta_i)), M0);
+
+    return {
+      points,
+      tipX: a,
+      tipY: b,
+      tipAngle: kappa0 * L + c_theta * (Theta - Theta_i),
+      maxStress: peakStress(stress),
+      stress,
+      strainEnergy: 0.5 * K * Math.pow(Theta - Theta_i, 2),
+      label: 'PRB 1R (Curved)',
+      color: '#0ea5e9', // Sky
+      ...status,
+      validity: prbValidity(BeamModelType.PRB_1R_CURVED, params, Theta - Theta_i),
+      prbParams: {
+        gamma: rho,
+        k_theta: K_theta,
+        c_theta,
+        stiffness_physicals: [K]
+      }
+    };
+  });
+}
+
+// Su Table A.5.3 parameters, also the starting point for the custom nR model
+const SU_3R_PRB: PrbParameters = {
+  links: [0.1, 0.35, 0.40, 0.15],
+  stiffness_coeffs: [3.51, 2.99, 2.58]
+};
+
+export const DEFAULT_CUSTOM_PRB: PrbParameters = SU_3R_PRB;
+
+/**
+ * Su's 3R model (Table A.5.3), solved with the general nR equilibrium.
+ */
 export function solvePRB3R(params: BeamParams): BeamResult {
+  return solvePRBnR(params, SU_3R_PRB, 'PRB 3R', '#8b5cf6'); // Violet
+}
+
+/**
+ * General n-revolute PRB model. `links` holds γ₀..γₙ and `stiffness_coeffs` holds
+ * K_c1..K_cn; joint i sits at the end of link i-1. Equilibrium K_iΘ_i = M_i is
+ * solved on the joint angles along the loading path from the unloaded links (see
+ * `pathSolve`). An optional `c_theta` scales the tip angle as in the 1R models.
+ */
+export function solvePRBnR(params: BeamParams, prb: PrbParameters, label: string = 'PRB nR', color: string = '#0d9488'): BeamResult {
   const { E, I, L, P, nP, M0 } = params;
   const EI = E * I;
-  
-  // Su Table A.5.3 parameters
-  const g0 = 0.1, g1 = 0.35, g2 = 0.40, g3 = 0.15;
-  const K_c1 = 3.51, K_c2 = 2.99, K_c3 = 2.58;
-  const K1 = K_c1 * (EI / L), K2 = K_c2 * (EI / L), K3 = K_c3 * (EI / L);
-
-  let T1 = 0.0, T2 = 0.0, T3 = 0.0;
-
-  // Solving equilibrium for 3R segments
-  for(let iter = 0; iter < 150; iter++) {
-    const a = L * (g0 + g1 * Math.cos(T1) + g2 * Math.cos(T1+T2) + g3 * Math.cos(T1+T2+T3));
-    const b = L * (g1 * Math.sin(T1) + g2 * Math.sin(T1+T2) + g3 * Math.sin(T1+T2+T3));
-    
-    const x1 = g0*L + g1*L*Math.cos(T1);
-    const y1 = g1*L*Math.sin(T1);
-    const x2 = x1 + g2*L*Math.cos(T1+T2);
-    const y2 = y1 + g2*L*Math.sin(T1+T2);
-
-    const M1 = P * (a - g0*L) + nP * (b - 0) + M0;
-    const M2 = P * (a - x1) + nP * (b - y1) + M0;
-    const M3 = P * (a - x2) + nP * (b - y2) + M0;
-
-    T1 += (M1/K1 - T1) * 0.1;
-    T2 += (M2/K2 - T2) * 0.1;
-    T3 += (M3/K3 - T3) * 0.1;
+  // The residuals are normalised by each K_i, so a spring without stiffness can't be solved
+  const invalid = prbParameterError(prb) ?? (EI > 0 ? undefined : STIFFNESS_ERROR);
+  if (invalid) return rejectedResult(label, color, invalid);
+  const links = prb.links ?? [];
+  const coeffs = prb.stiffness_coeffs ?? [];
+  const n = Math.min(links.length - 1, coeffs.length);
+  const K = coeffs.slice(0, n).map(kc => kc * (EI / L));
+  const g = links.slice(0, n + 1).map(gi => gi * L);
+  const c_theta = prb.c_theta ?? 1;
+  const follower = params.loadMode === LoadMode.FOLLOWER;
+
+  // Link k (k ≥ 1) points along φ_k = Θ_1 + … + Θ_k; link 0 lies on the x-axis
+  const linkAngles = (Theta: number[]) => {
+    const phi = [0];
+    for (let i = 0; i < n; i++) phi.push(phi[i] + Theta[i]);
+    return phi;
+  };
+
+  // C[m], S[m]: projections of links m..n, i.e. the lever arm from joint m to the tip
+  const leverArms = (Theta: number[]) => {
+    const phi = linkAngles(Theta);
+    const C = new Array(n + 2).fill(0);
+    const S = new Array(n + 2).fill(0);
+    for (let k = n; k >= 1; k--) {
+      C[k] = C[k + 1] + g[k] * Math.cos(phi[k]);
+      S[k] = S[k + 1] + g[k] * Math.sin(phi[k]);
+    }
+    return { C, S };
+  };
+
+  // Residuals are normalised by K_i so they read in radians
+  const solution = pathSolve(
+    (angles, lambda) => {
+      const { C, S } = leverArms(angles);
+      const psi = follower ? c_theta * angles.reduce((acc, t) => acc + t, 0) : 0;
+      const loads = rotateTipLoads(P, nP, psi);
+      return angles.map((t, i) => (K[i] * t - lambda * (loads.P * C[i + 1] + loads.nP * S[i + 1] + M0)) / K[i]);
+    },
+    new Array(n).fill(0),
+    loadIncrements(params),
+    {
+      tolerance: 1e-10,
+      maxIterations: 50,
+      maxStep: 0.5,
+      // Follower loads change with the joint angles, so their Jacobian is left to finite differences
+      jacobian: follower ? undefined : (angles, lambda) => {
+        const { C, S } = leverArms(angles);
+        return angles.map((_, i) => angles.map((__, j) => {
+          const m = Math.max(i, j) + 1;
+          return ((i === j ? K[i] : 0) + lambda * (P * S[m] - nP * C[m])) / K[i];
+        }));
+      }
+    },
+    LOADING_PATH
+  );
+  const phi = linkAngles(solution.u);
+  const points: Point[] = [{ x: 0, y: 0 }];
+  for (let k = 0; k <= n; k++) {
+    const last = points[points.length - 1];
+    points.push({ x: last.x + g[k] * Math.cos(phi[k]), y: last.y + g[k] * Math.sin(phi[k]) });
   }
 
-  const p1 = { x: g0 * L, y: 0 };
-  const p2 = { x: p1.x + g1 * L * Math.cos(T1), y: p1.y + g1 * L * Math.sin(T1) };
-  const p3 = { x: p2.x + g2 * L * Math.cos(T1 + T2), y: p2.y + g2 * L * Math.sin(T1 + T2) };
-  const p4 = { x: p3.x + g3 * L * Math.cos(T1 + T2 + T3), y: p3.y + g3 * L * Math.sin(T1 + T2 + T3) };
+  const tip = points[points.length - 1];
+  const loads = rotateTipLoads(P, nP, follower ? c_theta * phi[n] : 0);
+  const stress = prbStress(params, points, g.reduce((acc, gi) => acc + gi, 0), tip, loads, M0);
 
   return {
-    points: [{ x: 0, y: 0 }, p1, p2, p3, p4],
-    tipX: p4.x,
-    tipY: p4.y,
-    tipAngle: T1 + T2 + T3,
-    maxStress: 0,
-    label: 'PRB 3R',
-    color: '#8b5cf6', // Violet
-    prbParams: { 
-      links: [g0, g1, g2, g3],
-      stiffness_coeffs: [K_c1, K_c2, K_c3],
-      stiffness_physicals: [K1, K2, K3]
+    points,
+    tipX: tip.x,
+    tipY: tip.y,
+    tipAngle: c_theta * phi[n],
+    maxStress: peakStress(stress),
+    stress,
+    strainEnergy: K.reduce((acc, k, i) => acc + 0.5 * k * solution.u[i] * solution.u[i], 0),
+    label,
+    color,
+    ...diagnostics(solution),
+    prbParams: {
+      c_theta: prb.c_theta,
+      links: links.slice(0, n + 1),
+      stiffness_coeffs: coeffs.slice(0, n),
+      stiffness_physicals: K
     }
   };
 }
+
+/**
+ * Dispatches a model selection to its solver. `customPrb` feeds the custom nR model;
+ * a set `prbParameterError` rejects comes back unsolved, with the reason as a warning.
+ */
+export function solveModel(params: BeamParams, model: BeamModelType, customPrb?: PrbParameters): BeamResult {
+  switch (model) {
+    case BeamModelType.LINEAR: return solveLinearBeam(params);
+    case BeamModelType.NONLINEAR: return solveNonlinearBeam(params);
+    case BeamModelType.NONLINEAR_GUIDED: return solveNonlinearBeam(params, true);
+    case BeamModelType.PRB_1R_CANTILEVER_P:
+    case BeamModelType.PRB_1R_CANTILEVER_PNP:
+    case BeamModelType.PRB_1R_MOMENT: return solvePRB1R(params, model);
+    case BeamModelType.PRB_1R_CURVED: return solvePRB1RCurved(params);
+    case BeamModelType.PRB_1R_FLEXURAL_PIVOT: return solvePRB1RFlexuralPivot(params);
+    case BeamModelType.PRB_1R_FIXED_GUIDED: return solvePRB1RFixedGuided(params);
+    case BeamModelType.PRB_3R_SU: return solvePRB3R(params);
+    case BeamModelType.PRB_NR_CUSTOM: return solvePRBnR(params, customPrb ?? DEFAULT_CUSTOM_PRB);
+  }
+}
@@ -0,0 +1,124 @@
+import { BeamParams, CrossSectionType, DesignCandidate, DesignRanking, DesignSynthesisOptions, DesignTarget } from '../types';
+import { solveNonlinearBeam, curvedTip } from './beamSolver';
+import { sectionProperties } from './sectionProperties';
+
+// Geometric spacing suits thicknesses that span orders of magnitude; the limits
+// must pass `designRangeError` first
+const grid = (min: number, max: number, steps: number) => {
+  const n = Math.max(1, Math.round(steps));
+  if (n === 1 || max === min) return [min];
+  return Array.from({ length: n }, (_, i) => min * Math.pow(max / min, i / (n - 1)));
+};
+
+/**
+ * Why the search limits can't span a geometric grid, or undefined when they can:
+ * every limit must be positive and each minimum no larger than its maximum.
+ */
+export function designRangeError(options: DesignSynthesisOptions): string | undefined {
+  const ranges: [string, number, number][] = [
+    ['Length', options.minLength, options.maxLength],
+    ['Thickness', options.minThickness, options.maxThickness],
+    ['Width', options.minWidth, options.maxWidth]
+  ];
+  for (const [name, min, max] of ranges) {
+    if (!(min > 0) || !(max > 0)) return `${name} limits must be positive.`;
+    if (min > max) return `${name} minimum exceeds its maximum.`;
+  }
+  return undefined;
+}
+
+/**
+ * Tip deflection or rotation, measured from the unstressed beam, when the
+ * applied loads are scaled by `loadFactor`.
+ */
+const tipMotion = (params: BeamParams, target: DesignTarget, loadFactor: number) => {
+  const result = solveNonlinearBeam({ ...params, P: params.P * loadFactor, nP: params.nP * loadFactor, M0: params.M0 * loadFactor });
+  const tip0 = curvedTip(params.L, params.kappa0);
+  const motion = target === DesignTarget.ROTATION
+    ? Math.abs(result.tipAngle - params.kappa0 * params.L)
+    : Math.hypot(result.tipX - tip0.x, result.tipY - tip0.y);
+  return { motion, result };
+};
+
+/**
+ * Scales the applied loads until the tip motion meets the target, by the secant
+ * method on the load factor (safeguarded by bisection once the target is bracketed).
+ */
+const solveLoadFactor = (params: BeamParams, target: DesignTarget, targetValue: number) => {
+  let lo = { factor: 0, ...tipMotion(params, target, 0) };
+  let hi: typeof lo | null = null;
+  let prev = lo;
+  let current = { factor: 1, ...tipMotion(params, target, 1) };
+
+  for (let i = 0; i < 16; i++) {
+    const error = current.motion - targetValue;
+    if (Math.abs(error) <= 1e-4 * targetValue && current.result.converged) return current;
+    if (error < 0) lo = current; else hi = current;
+
+    const slope = (current.motion - prev.motion) / (current.factor - prev.factor);
+    let next = slope > 0 ? current.factor - error / slope : current.factor * 2;
+    // Stay inside the bracket once there is one; otherwise grow at most tenfold per step
+    if (hi && (next <= lo.factor || next >= hi.factor)) next = (lo.factor + hi.factor) / 2;
+    if (!hi) next = Math.min(Math.max(next, lo.factor), Math.max(current.factor, 1e-12) * 10);
+    prev = current;
+    current = { factor: next, ...tipMotion(params, target, next) };
+  }
+  return null;
+};
+
+type GridPoint = Pick<DesignCandidate, 'L' | 'h' | 'b'>;
+
+/**
+ * The rectangular cantilevers a search covers: every combination of the L, h and b
+ * grids. The caller evaluates them (`evaluateDesign`), in batches if it must stay
+ * responsive, and orders the results with `rankDesigns`. Limits that `designRangeError` rejects, a non-positive target or no
+ * applied load give no points.
+ */
+export function designGrid(params: BeamParams, options: DesignSynthesisOptions): GridPoint[] {
+  if (options.targetValue <= 0 || (params.P === 0 && params.nP === 0 && params.M0 === 0) || designRangeError(options)) return [];
+  const lengths = grid(options.minLength, options.maxLength, options.steps);
+  const thicknesses = grid(options.minThickness, options.maxThickness, options.steps);
+  const widths = grid(options.minWidth, options.maxWidth, options.steps);
+  return lengths.flatMap(L => thicknesses.flatMap(h => widths.map(b => ({ L, h, b }))));
+}
+
+/**
+ * One candidate of the search: its applied loads are scaled until the nonlinear tip
+ * motion meets the target, and it is feasible when the peak bending stress there
+ * stays within the allowable.
+ */
+export function evaluateDesign(params: BeamParams, options: DesignSynthesisOptions, { L, h, b }: GridPoint): DesignCandidate {
+  const loadMagnitude = Math.hypot(params.P, params.nP);
+  const section = sectionProperties(CrossSectionType.RECTANGULAR, { width: b, height: h, diameter: 0, wall: 0, flange: 0, web: 0 });
+  const design: BeamParams = { ...params, ...section, L, profile: undefined };
+  const solved = solveLoadFactor(design, options.target, options.targetValue);
+  const factor = solved?.factor ?? NaN;
+  const maxStress = solved ? solved.result.maxStress : Infinity;
+  const actuation = factor * (loadMagnitude > 0 ? loadMagnitude : Math.abs(params.M0));
+  return {
+    L,
+    h,
+    b,
+    P: params.P * factor,
+    nP: params.nP * factor,
+    M0: params.M0 * factor,
+    maxStress,
+    stiffness: actuation / options.targetValue,
+    volume: L * b * h,
+    feasible: solved !== null && maxStress <= options.allowableStress
+  };
+}
+
+/**
+ * Feasible designs first, each group ranked as requested.
+ */
+export function rankDesigns(candidates: DesignCandidate[], ranking: DesignRanking): DesignCandidate[] {
+  const score = (c: DesignCandidate) => {
+    switch (ranking) {
+      case DesignRanking.STIFFEST: return -c.stiffness;
+      case DesignRanking.MOST_COMPLIANT: return c.stiffness;
+      case DesignRanking.SMALLEST: return c.volume;
+    }
+  };
+  return [...candidates].sort((p, q) => (p.feasible === q.feasible ? score(p) - score(q) : p.feasible ? -1 : 1));
+}
@@ -0,0 +1,187 @@
+import { arcLengthContinuation, ArcLengthOptions, ArcLengthPoint, newtonSolve, NewtonResult, pathCrossing } from './newton';
+import { determinant, solveLinearSystem } from './linearAlgebra';
+import { distributedLoad, nonlinearShooting, solveNonlinearBeam } from './beamSolver';
+import { BeamParams, BeamResult, EquilibriumPath, EquilibriumPathPoint } from '../types';
+
+type Residual = (u: number[], lambda: number) => number[];
+
+const PATH_OPTIONS: ArcLengthOptions = {
+  initialStep: 0.05,
+  maxStep: 0.25,
+  minStep: 1e-4,
+  maxSteps: 150,
+  lambdaMin: -0.25,
+  lambdaMax: 1.25,
+  tolerance: 1e-9
+};
+
+// Branches switched to at most this many bifurcations of the primary path
+const MAX_BIFURCATIONS = 2;
+
+const jacobianU = (residual: Residual, u: number[], lambda: number, h: number = 1e-7) => {
+  const r = residual(u, lambda);
+  const columns = u.map((_, j) => {
+    const up = [...u];
+    up[j] += h;
+    return residual(up, lambda).map((ri, i) => (ri - r[i]) / h);
+  });
+  return r.map((_, i) => columns.map(col => col[i]));
+};
+
+const normalise = (v: number[]) => {
+  const len = Math.hypot(...v);
+  return len > 0 ? v.map(vi => vi / len) : v;
+};
+
+/**
+ * Null vector of the (nearly singular) ∂R/∂u at a bifurcation, by inverse iteration.
+ */
+const nullVector = (J: number[][]) => {
+  let v = normalise(J.map(() => 1));
+  for (let k = 0; k < 4; k++) {
+    const next = solveLinearSystem(J, v);
+    if (!next || next.some(x => !isFinite(x))) break;
+    v = normalise(next);
+  }
+  return v;
+};
+
+/**
+ * Traces the equilibrium path of the nonlinear beam (see `nonlinearShooting`)
+ * against the load factor λ by pseudo-arc-length continuation, so it follows the
+ * path through snap-through limit points. At each bifurcation of the primary path
+ * (where det ∂R/∂u changes sign without a limit point, as at buckling under
+ * compression) it switches onto the crossing branch along the null vector and
+ * traces it both ways.
+ *
+ * Every crossing of λ = 1 is refined with Newton's method; the primary path's
+ * first crossing is the reported solution, the others follow it. Problems with a single
+ * unknown also scan the root moment at λ = 1, which finds branches that no path
+ * from the unloaded state reaches. Stability is the parity of det ∂R/∂u against
+ * the unloaded beam; it is left undefined for follower loads.
+ */
+export function traceEquilibriumPath(params: BeamParams, guided: boolean = false): EquilibriumPath {
+  const shooting = nonlinearShooting(params, guided);
+  const { residual, u0, follower, label, color } = shooting;
+  if (!(params.E * params.I > 0)) return { label, color, branches: [], solutions: [solveNonlinearBeam(params, guided)] };
+
+  const referenceSign = Math.sign(determinant(jacobianU(residual, u0, 0)));
+  const isStable = (det: number) => (follower ? undefined : Math.sign(det) === referenceSign);
+
+  const toPathPoint = (p: ArcLengthPoint): EquilibriumPathPoint => {
+    const { points, theta } = shooting.shape(p.u, p.lambda);
+    const tip = points[points.length - 1];
+    return {
+      lambda: p.lambda,
+      tipX: tip.x,
+      tipY: tip.y,
+      tipAngle: theta,
+      limit: p.limit,
+      bifurcation: p.bifurcation,
+      stable: isStable(p.determinant)
+    };
+  };
+
+  // Locates a bifurcation between two path points by bisecting on the sign of det ∂R/∂u
+  const refineBifurcation = (a: ArcLengthPoint, b: ArcLengthPoint): ArcLengthPoint => {
+    let lo = a;
+    let hi = b;
+    for (let k = 0; k < 30; k++) {
+      const lambda = (lo.lambda + hi.lambda) / 2;
+      const guess = lo.u.map((ui, j) => (ui + hi.u[j]) / 2);
+      const corrected = newtonSolve(u => residual(u, lambda), guess, { tolerance: 1e-10, maxIterations: 20, maxStep: 0.25 });
+      const u = corrected.converged ? corrected.u : guess;
+      const det = determinant(jacobianU(residual, u, lambda));
+      const mid = { u, lambda, determinant: det, limit: false, bifurcation: true };
+      if (Math.sign(det) === Math.sign(lo.determinant)) lo = mid; else hi = mid;
+    }
+    return { ...lo, bifurcation: true };
+  };
+
+  const primaryPath: ArcLengthPoint[] = [];
+  arcLengthContinuation(residual, u0, 0, PATH_OPTIONS).forEach((p, i, path) => {
+    if (p.bifurcation) primaryPath.push(refineBifurcation(path[i - 1], p));
+    primaryPath.push({ ...p, bifurcation: false });
+  });
+  const paths: ArcLengthPoint[][] = [primaryPath];
+
+  primaryPath
+    .map((p, i) => ({ p, i }))
+    .filter(({ p }) => p.bifurcation)
+    .slice(0, MAX_BIFURCATIONS)
+    .forEach(({ p, i }) => {
+      // Leave along the null vector, orthogonal to the primary path's tangent
+      const previous = primaryPath[i - 1];
+      const following = primaryPath[i + 1];
+      const t = normalise([...following.u.map((ui, k) => ui - previous.u[k]), following.lambda - previous.lambda]);
+      let d = [...nullVector(jacobianU(residual, p.u, p.lambda)), 0];
+      const along = d.reduce((acc, di, k) => acc + di * t[k], 0);
+      d = normalise(d.map((di, k) => di - along * t[k]));
+      [1, -1].forEach(sign => {
+        const branch = arcLengthContinuation(residual, p.u, p.lambda, {
+          ...PATH_OPTIONS,
+          initialStep: 0.02,
+          tangent: d.map(di => sign * di)
+        });
+        if (branch.length < 2) return;
+        // The branch starts on the bifurcation, so leaving it flips det ∂R/∂u once
+        branch[0] = { ...branch[0], bifurcation: true };
+        branch[1] = { ...branch[1], bifurcation: false };
+        paths.push(branch);
+      });
+    });
+
+  // Candidate unknowns at λ = 1: interpolated path crossings, then a scan when u is scalar
+  const candidates: number[][] = [];
+  paths.forEach(path => path.slice(1).forEach((b, i) => {
+    const a = path[i];
+    if ((a.lambda - 1) * (b.lambda - 1) > 0 || a.lambda === b.lambda) return;
+    const t = (1 - a.lambda) / (b.lambda - a.lambda);
+    candidates.push(a.u.map((ua, k) => ua + t * (b.u[k] - ua)));
+  }));
+
+  if (u0.length === 1) {
+    const { fx, fy } = distributedLoad(params);
+    const { L, E, I, P, nP, M0 } = params;
+    const load = ((Math.abs(P) + Math.abs(nP) + (Math.abs(fx) + Math.abs(fy)) * L / 2) * L * L + Math.abs(M0) * L) / (E * I);
+    // Beyond the load bound, leave room for shapes that curl through a full turn
+    const span = 1.1 * load + 2 * Math.PI;
+    const samples = Math.min(1500, Math.ceil(2 * span / 0.02));
+    let ua = -span;
+    let ra = residual([ua], 1)[0];
+    for (let k = 1; k <= samples; k++) {
+      const ub = -span + (2 * span * k) / samples;
+      const rb = residual([ub], 1)[0];
+      if (ra * rb <= 0) candidates.push([ua - ra * (ub - ua) / (rb - ra || 1)]);
+      ua = ub;
+      ra = rb;
+    }
+  }
+
+  const status = ({ converged, iterations, residual: r }: NewtonResult) => ({ converged, iterations, residual: r });
+
+  // The primary solution is where the primary path first reaches full load, as the
+  // beam is loaded; `solveNonlinearBeam` follows the same path
+  const primary = pathCrossing(residual, primaryPath, 1, { tolerance: 1e-9, maxIterations: 30, maxStep: 0.25 }) ?? shooting.solve();
+  const solutions: BeamResult[] = [{
+    ...shooting.result(primary.u, status(primary)),
+    stable: isStable(determinant(jacobianU(residual, primary.u, 1)))
+  }];
+  const sameTip = (a: BeamResult, b: BeamResult) =>
+    Math.hypot(a.tipX - b.tipX, a.tipY - b.tipY) < 1e-6 * params.L && Math.abs(a.tipAngle - b.tipAngle) < 1e-6;
+
+  candidates.forEach(candidate => {
+    const solution = newtonSolve(u => residual(u, 1), candidate, { tolerance: 1e-9, maxIterations: 30, maxStep: 0.25 });
+    if (!solution.converged) return;
+    const result = shooting.result(solution.u, status(solution));
+    if (solutions.some(s => sameTip(s, result))) return;
+    solutions.push({ ...result, stable: isStable(determinant(jacobianU(residual, solution.u, 1))) });
+  });
+
+  return {
+    label,
+    color,
+    branches: paths.map(path => path.map(toPathPoint)),
+    solutions
+  };
+}
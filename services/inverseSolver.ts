@@ -0,0 +1,71 @@
+import { BeamParams, BeamModelType, BeamResult, GravityDirection, InverseResult, PrbParameters, TipTarget } from '../types';
+import { solveModel, curvedTip } from './beamSolver';
+import { levenbergMarquardt } from './optimizer';
+
+// A target counts as reached when the tip is within this fraction of L and this many radians
+const POSITION_TOLERANCE = 1e-4;
+const ANGLE_TOLERANCE = 1e-4;
+
+const chainLength = (r: BeamResult) =>
+  r.points.slice(1).reduce((acc, p, i) => acc + Math.hypot(p.x - r.points[i].x, p.y - r.points[i].y), 0);
+
+/**
+ * Starting loads from small-deflection cantilever theory: P and M0 that give the
+ * target's transverse offset and rotation from the unstressed tip, with nP = 0.
+ */
+const linearGuess = (params: BeamParams, target: TipTarget) => {
+  const { E, I, L, kappa0 } = params;
+  const EI = E * I;
+  const tip0 = curvedTip(L, kappa0);
+  const y = target.y - tip0.y;
+  const theta = target.theta - kappa0 * L;
+  // y = PL³/3EI + M0L²/2EI, θ = PL²/2EI + M0L/EI
+  const det = Math.pow(L, 4) / 12;
+  return {
+    P: EI * (L * y - (L * L / 2) * theta) / det,
+    M0: EI * ((Math.pow(L, 3) / 3) * theta - (L * L / 2) * y) / det
+  };
+};
+
+/**
+ * Loads (P, nP, M0) that bring a model's tip to a target position and angle,
+ * found by least squares over forward solves. Models with fewer effective degrees
+ * of freedom than the target (a 1R chain, or a guided tip) return the closest
+ * pose they can reach, flagged as unreachable. Targets farther from the root than
+ * the unloaded beam or chain is long are rejected without solving.
+ */
+export function solveInverse(params: BeamParams, model: BeamModelType, target: TipTarget, customPrb?: PrbParameters): InverseResult {
+  const { E, I, L } = params;
+  const EI = E * I;
+  const unloaded = solveModel({ ...params, P: 0, nP: 0, M0: 0, q: 0, gravity: GravityDirection.OFF }, model, customPrb);
+  const { label, color } = unloaded;
+
+  if (Math.hypot(target.x, target.y) > chainLength(unloaded) * (1 + 1e-9)) {
+    return { label, color, P: 0, nP: 0, M0: 0, reachable: false, positionError: Infinity, angleError: Infinity, iterations: 0 };
+  }
+
+  // Unknowns scaled to O(1): PL²/EI, nP·L²/EI and M0·L/EI
+  const loadsFor = (u: number[]) => ({ P: u[0] * EI / (L * L), nP: u[1] * EI / (L * L), M0: u[2] * EI / L });
+  const forward = (u: number[]) => solveModel({ ...params, ...loadsFor(u) }, model, customPrb);
+  const residual = (u: number[]) => {
+    const r = forward(u);
+    return [(r.tipX - target.x) / L, (r.tipY - target.y) / L, r.tipAngle - target.theta];
+  };
+
+  const guess = linearGuess(params, target);
+  const fit = levenbergMarquardt(residual, [guess.P * L * L / EI, 0, guess.M0 * L / EI], { maxIterations: 40, tolerance: 1e-9, fdStep: 1e-6 });
+
+  const result = forward(fit.x);
+  const positionError = Math.hypot(result.tipX - target.x, result.tipY - target.y) / L;
+  const angleError = Math.abs(result.tipAngle - target.theta);
+  return {
+    label,
+    color,
+    ...loadsFor(fit.x),
+    reachable: result.converged && positionError < POSITION_TOLERANCE && angleError < ANGLE_TOLERANCE,
+    positionError,
+    angleError,
+    iterations: fit.iterations,
+    result
+  };
+}
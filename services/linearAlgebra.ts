@@ -0,0 +1,58 @@
+/**
+ * Solves A·x = b by Gaussian elimination with partial pivoting. Returns null when
+ * the matrix is singular to working precision. Neither argument is modified.
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-300) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      for (let k = col; k <= n; k++) M[row][k] -= factor * M[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = M[row][n];
+    for (let k = row + 1; k < n; k++) sum -= M[row][k] * x[k];
+    x[row] = sum / M[row][row];
+  }
+  return x;
+}
+
+/**
+ * Determinant by Gaussian elimination with partial pivoting. The matrix is not modified.
+ */
+export function determinant(A: number[][]): number {
+  const n = A.length;
+  const M = A.map(row => [...row]);
+  let det = 1;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+    }
+    if (M[pivot][col] === 0) return 0;
+    if (pivot !== col) {
+      [M[col], M[pivot]] = [M[pivot], M[col]];
+      det = -det;
+    }
+    det *= M[col][col];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      for (let k = col; k < n; k++) M[row][k] -= factor * M[col][k];
+    }
+  }
+  return det;
+}
@@ -0,0 +1,33 @@
+import { BeamParams, BeamModelType, LoadSweepOptions, LoadSweepSample, PrbParameters } from '../types';
+import { solveModel } from './beamSolver';
+
+/**
+ * Ramps P, nP and M0 proportionally between two load factors and solves every
+ * model at each increment. With `rampDistributed`, q and the self-weight (through
+ * the density) ramp with them.
+ */
+export function runLoadSweep(params: BeamParams, models: BeamModelType[], options: LoadSweepOptions, customPrb?: PrbParameters): LoadSweepSample[] {
+  const steps = Math.max(1, Math.round(options.steps));
+  const samples: LoadSweepSample[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const loadFactor = options.startFactor + (options.endFactor - options.startFactor) * (i / steps);
+    const stepParams: BeamParams = {
+      ...params,
+      P: params.P * loadFactor,
+      nP: params.nP * loadFactor,
+      M0: params.M0 * loadFactor,
+      ...(options.rampDistributed ? { q: params.q * loadFactor, density: params.density * loadFactor } : {})
+    };
+
+    samples.push({
+      loadFactor,
+      P: stepParams.P,
+      nP: stepParams.nP,
+      M0: stepParams.M0,
+      results: models.map(model => solveModel(stepParams, model, customPrb))
+    });
+  }
+
+  return samples;
+}
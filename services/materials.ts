@@ -0,0 +1,23 @@
+import { Material } from '../types';
+
+/**
+ * Typical properties of common flexure materials (room temperature, SI units).
+ * Fatigue strengths are fully reversed values near 10^7 cycles; check the
+ * supplier's data before committing to a design.
+ */
+export const MATERIALS: Material[] = [
+  { name: 'Spring Steel (1095)', E: 207e9, yieldStrength: 1310e6, fatigueStrength: 600e6, density: 7850 },
+  { name: 'Steel (4140 Q&T)', E: 207e9, yieldStrength: 1460e6, fatigueStrength: 620e6, density: 7850 },
+  { name: 'Titanium (Ti-6Al-4V)', E: 114e9, yieldStrength: 830e6, fatigueStrength: 510e6, density: 4430 },
+  { name: 'Aluminium (7075-T6)', E: 71.7e9, yieldStrength: 503e6, fatigueStrength: 159e6, density: 2810 },
+  { name: 'Polypropylene', E: 1.4e9, yieldStrength: 34e6, fatigueStrength: 11e6, density: 905 },
+  { name: 'PEEK', E: 3.6e9, yieldStrength: 100e6, fatigueStrength: 45e6, density: 1320 },
+  { name: 'Delrin (Acetal)', E: 2.8e9, yieldStrength: 65e6, fatigueStrength: 31e6, density: 1420 }
+];
+
+/**
+ * Factor of safety against a strength for a peak stress; unloaded beams are infinitely safe.
+ */
+export function factorOfSafety(maxStress: number, strength: number): number {
+  return maxStress > 0 ? strength / maxStress : Infinity;
+}
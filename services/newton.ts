@@ -0,0 +1,273 @@
+import { solveLinearSystem, determinant } from './linearAlgebra';
+
+export interface NewtonOptions {
+  tolerance: number;      // Converged when max |residual| falls below this
+  maxIterations: number;
+  maxStep?: number;       // Largest change allowed in any unknown per iteration
+  jacobian?: (u: number[]) => number[][]; // Finite differences are used when omitted
+  fdStep?: number;        // Perturbation for the finite-difference Jacobian
+}
+
+export interface NewtonResult {
+  u: number[];
+  converged: boolean;
+  iterations: number;
+  residual: number;       // Max |residual| at the returned point
+}
+
+const maxAbs = (v: number[]) => v.reduce((acc, x) => Math.max(acc, Math.abs(x)), 0);
+
+/**
+ * Newton's method with step limiting and backtracking: a step is halved until it
+ * reduces the residual, so starting far from equilibrium does not diverge.
+ */
+export function newtonSolve(residual: (u: number[]) => number[], u0: number[], options: NewtonOptions): NewtonResult {
+  let u = [...u0];
+  let r = residual(u);
+  let norm = maxAbs(r);
+  const h = options.fdStep ?? 1e-7;
+
+  const jacobian = options.jacobian ?? ((x: number[]) => {
+    const columns = x.map((_, j) => {
+      const xp = [...x];
+      xp[j] += h;
+      const rp = residual(xp);
+      return rp.map((ri, i) => (ri - r[i]) / h);
+    });
+    return r.map((_, i) => columns.map(col => col[i]));
+  });
+
+  for (let iter = 0; iter < options.maxIterations; iter++) {
+    if (norm < options.tolerance) return { u, converged: true, iterations: iter, residual: norm };
+
+    const delta = solveLinearSystem(jacobian(u), r);
+    if (!delta || delta.some(d => !isFinite(d))) return { u, converged: false, iterations: iter, residual: norm };
+
+    const stepSize = maxAbs(delta);
+    let lambda = options.maxStep !== undefined && stepSize > options.maxStep ? options.maxStep / stepSize : 1;
+
+    let next = u.map((ui, i) => ui - lambda * delta[i]);
+    let nextR = residual(next);
+    for (let k = 0; k < 10 && !(maxAbs(nextR) < norm); k++) {
+      lambda /= 2;
+      next = u.map((ui, i) => ui - lambda * delta[i]);
+      nextR = residual(next);
+    }
+
+    u = next;
+    r = nextR;
+    norm = maxAbs(r);
+  }
+
+  return { u, converged: norm < options.tolerance, iterations: options.maxIterations, residual: norm };
+}
+
+export interface ContinuationOptions extends Omit<NewtonOptions, 'jacobian'> {
+  jacobian?: (u: number[], lambda: number) => number[][];
+}
+
+/**
+ * Ramps a load factor λ from 0 to 1 in equal increments, starting each Newton solve
+ * from the previous equilibrium. Past a limit or near a bifurcation an increment can
+ * land on another branch; `pathSolve` stays on the one from the unloaded state.
+ * Iterations are summed over all increments; convergence and residual are those of
+ * the final increment.
+ */
+export function continuationSolve(
+  residual: (u: number[], lambda: number) => number[],
+  u0: number[],
+  increments: number,
+  options: ContinuationOptions
+): NewtonResult {
+  const steps = Math.max(1, Math.round(increments));
+  let u = [...u0];
+  let iterations = 0;
+  let result: NewtonResult = { u, converged: true, iterations: 0, residual: 0 };
+
+  for (let k = 1; k <= steps; k++) {
+    const lambda = k / steps;
+    const jacobian = options.jacobian;
+    result = newtonSolve(v => residual(v, lambda), u, {
+      ...options,
+      jacobian: jacobian ? (v => jacobian(v, lambda)) : undefined
+    });
+    iterations += result.iterations;
+    u = result.u;
+  }
+
+  return { ...result, iterations };
+}
+
+export interface ArcLengthOptions {
+  initialStep: number;   // Arc length of the first step in (u, λ) space
+  maxStep: number;
+  minStep: number;       // Give up when a step must shrink below this
+  maxSteps: number;
+  lambdaMin: number;     // Stop once λ leaves [lambdaMin, lambdaMax]
+  lambdaMax: number;
+  tolerance: number;     // Corrector convergence on max |residual|
+  tangent?: number[];    // Starting direction in (u, λ); by default the one with increasing λ
+  fdStep?: number;
+}
+
+// Largest tangent turn accepted in one arc-length step (cos 20°)
+const MAX_TURN_COS = Math.cos(Math.PI / 9);
+
+export interface ArcLengthPoint {
+  u: number[];
+  lambda: number;
+  determinant: number;   // det ∂R/∂u, which changes sign at limit and bifurcation points
+  limit: boolean;        // λ passed a turning point on the step that reached this point
+  bifurcation: boolean;  // det ∂R/∂u changed sign without a turning point in λ
+}
+
+/**
+ * Pseudo-arc-length continuation of R(u, λ) = 0. Each step predicts along the
+ * path tangent and corrects with Newton's method on R together with the arc-length
+ * constraint, so the path is followed through limit points where plain load
+ * stepping fails. Steps that turn sharply, or change stability away from a turning
+ * point, are retried shorter so the path keeps to its own branch through tight bends.
+ * The starting point should satisfy R(u0, λ0) = 0.
+ */
+export function arcLengthContinuation(
+  residual: (u: number[], lambda: number) => number[],
+  u0: number[],
+  lambda0: number,
+  options: ArcLengthOptions
+): ArcLengthPoint[] {
+  const n = u0.length;
+  const h = options.fdStep ?? 1e-7;
+
+  // Columns ∂R/∂u_j followed by ∂R/∂λ
+  const jacobian = (u: number[], lambda: number, r: number[]) => {
+    const columns = [...u, lambda].map((_, j) => {
+      const up = [...u];
+      let lp = lambda;
+      if (j < n) up[j] += h; else lp += h;
+      return residual(up, lp).map((ri, i) => (ri - r[i]) / h);
+    });
+    return r.map((_, i) => columns.map(col => col[i]));
+  };
+  const dot = (a: number[], b: number[]) => a.reduce((acc, ai, i) => acc + ai * b[i], 0);
+  const normalise = (v: number[]) => {
+    const len = Math.sqrt(dot(v, v));
+    return v.map(vi => vi / len);
+  };
+  const jacobianU = (J: number[][]) => J.map(row => row.slice(0, n));
+
+  // The tangent spans the null space of [R_u R_λ]; the extra row fixes its orientation
+  const tangentFor = (J: number[][], previous: number[]) => {
+    const t = solveLinearSystem([...J, previous], [...new Array(n).fill(0), 1]);
+    return t ? normalise(t) : null;
+  };
+
+  let x = [...u0, lambda0];
+  let r = residual(u0, lambda0);
+  let J = jacobian(u0, lambda0, r);
+  let t = options.tangent ? normalise(options.tangent) : tangentFor(J, [...new Array(n).fill(0), 1]);
+  if (!t) return [];
+  let det = determinant(jacobianU(J));
+  const points: ArcLengthPoint[] = [{ u: [...u0], lambda: lambda0, determinant: det, limit: false, bifurcation: false }];
+  let ds = options.initialStep;
+
+  for (let step = 0; step < options.maxSteps && ds >= options.minStep; step++) {
+    const predicted = x.map((xi, i) => xi + ds * t![i]);
+    let y = predicted;
+    let converged = false;
+    let iterations = 0;
+
+    for (; iterations < 15; iterations++) {
+      const ry = residual(y.slice(0, n), y[n]);
+      const constraint = dot(t, y.map((yi, i) => yi - x[i])) - ds;
+      if (maxAbs([...ry, constraint]) < options.tolerance) {
+        converged = true;
+        break;
+      }
+      const Jy = jacobian(y.slice(0, n), y[n], ry);
+      const delta = solveLinearSystem([...Jy, t], [...ry, constraint]);
+      if (!delta || delta.some(d => !isFinite(d))) break;
+      y = y.map((yi, i) => yi - delta[i]);
+    }
+
+    if (!converged) {
+      ds /= 2;
+      continue;
+    }
+
+    const ry = residual(y.slice(0, n), y[n]);
+    const Jy = jacobian(y.slice(0, n), y[n], ry);
+    const next = tangentFor(Jy, t);
+    if (!next) break;
+    // A sharp turn in one step means the step cut across a tight bend (as at an imperfect
+    // bifurcation) and may have landed on another branch: retry it shorter
+    if (dot(next, t) < MAX_TURN_COS && ds / 2 >= options.minStep) {
+      ds /= 2;
+      continue;
+    }
+    const nextDet = determinant(jacobianU(Jy));
+    const limit = next[n] * t[n] < 0;
+    const bifurcation = !limit && Math.sign(nextDet) !== Math.sign(det) && nextDet !== 0;
+    // Stability changing without a turning point is either a true bifurcation or a step
+    // that cut a tight bend onto the neighbouring branch, where the tangent barely turns:
+    // shorten it, and only pass through once the step is as short as allowed
+    if (bifurcation && ds / 2 >= options.minStep) {
+      ds /= 2;
+      continue;
+    }
+    r = ry;
+    J = Jy;
+
+    points.push({ u: y.slice(0, n), lambda: y[n], determinant: nextDet, limit, bifurcation });
+    x = y;
+    t = next;
+    det = nextDet;
+    if (iterations <= 3) ds = Math.min(ds * 1.5, options.maxStep);
+    if (y[n] < options.lambdaMin || y[n] > options.lambdaMax) break;
+  }
+
+  return points;
+}
+
+/**
+ * Newton solution at load factor λ on a traced path, started from the interpolated
+ * point where the path first crosses λ; null when the path never reaches λ or
+ * Newton fails there.
+ */
+export function pathCrossing(
+  residual: (u: number[], lambda: number) => number[],
+  path: ArcLengthPoint[],
+  lambda: number,
+  options: NewtonOptions
+): NewtonResult | null {
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    if ((a.lambda - lambda) * (b.lambda - lambda) > 0 || a.lambda === b.lambda) continue;
+    const t = (lambda - a.lambda) / (b.lambda - a.lambda);
+    const guess = a.u.map((ua, k) => ua + t * (b.u[k] - ua));
+    const solution = newtonSolve(u => residual(u, lambda), guess, options);
+    return solution.converged ? solution : null;
+  }
+  return null;
+}
+
+/**
+ * Solves R(u, 1) = 0 on the equilibrium path that grows from (u0, λ = 0): the path
+ * is followed by arc-length continuation to its first crossing of λ = 1, which is
+ * then refined with Newton's method. This holds the path through limit points and
+ * imperfect bifurcations, where `continuationSolve` may jump to another branch; that
+ * remains the fallback when the path doesn't reach λ = 1. Iterations are those of
+ * the final Newton refinement.
+ */
+export function pathSolve(
+  residual: (u: number[], lambda: number) => number[],
+  u0: number[],
+  increments: number,
+  options: ContinuationOptions,
+  path: ArcLengthOptions
+): NewtonResult {
+  const traced = arcLengthContinuation(residual, u0, 0, { ...path, lambdaMax: 1 });
+  const { jacobian } = options;
+  const crossing = pathCrossing(residual, traced, 1, { ...options, jacobian: jacobian ? (v => jacobian(v, 1)) : undefined });
+  return crossing ?? continuationSolve(residual, u0, increments, options);
+}
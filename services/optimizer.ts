@@ -0,0 +1,139 @@
+import { solveLinearSystem } from './linearAlgebra';
+
+export interface NelderMeadOptions {
+  maxEvaluations: number;
+  tolerance: number;    // Stop when the simplex values spread less than this
+  initialStep: number;  // Edge length of the starting simplex
+}
+
+export interface NelderMeadResult {
+  x: number[];
+  value: number;
+  evaluations: number;
+}
+
+/**
+ * Derivative-free minimisation with the Nelder-Mead simplex method. Suited to the
+ * small, noisy objectives produced by comparing PRB models with numerical solutions.
+ */
+export function nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  options: NelderMeadOptions = { maxEvaluations: 2000, tolerance: 1e-10, initialStep: 0.05 }
+): NelderMeadResult {
+  const n = x0.length;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    const v = f(x);
+    return isFinite(v) ? v : Number.MAX_VALUE;
+  };
+
+  let simplex = [x0, ...x0.map((_, i) => x0.map((xi, j) => (i === j ? xi + options.initialStep : xi)))]
+    .map(x => ({ x, value: evaluate(x) }));
+
+  while (evaluations < options.maxEvaluations) {
+    simplex.sort((p, q) => p.value - q.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.value - best.value) < options.tolerance) break;
+
+    const centroid = x0.map((_, j) => simplex.slice(0, n).reduce((acc, p) => acc + p.x[j], 0) / n);
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = along(-1);
+    const reflectedValue = evaluate(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = along(-2);
+      const expandedValue = evaluate(expanded);
+      simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = reflectedValue < worst.value ? along(-0.5) : along(0.5);
+      const contractedValue = evaluate(contracted);
+      if (contractedValue < Math.min(reflectedValue, worst.value)) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink every vertex towards the best one
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = p.x.map((xi, j) => best.x[j] + 0.5 * (xi - best.x[j]));
+          return { x, value: evaluate(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((p, q) => p.value - q.value);
+  return { x: simplex[0].x, value: simplex[0].value, evaluations };
+}
+
+export interface LevenbergMarquardtOptions {
+  maxIterations: number;
+  tolerance: number;  // Stop when max |residual| falls below this
+  fdStep: number;     // Perturbation for the finite-difference Jacobian
+}
+
+export interface LevenbergMarquardtResult {
+  x: number[];
+  residual: number;   // Max |residual| at the returned point
+  iterations: number;
+  converged: boolean; // Residual met the tolerance, not just a local least-squares minimum
+}
+
+/**
+ * Least-squares solution of residual(x) = 0 with the Levenberg-Marquardt method.
+ * Unlike Newton's method it tolerates rank-deficient Jacobians, so it returns the
+ * closest achievable point when the equations have no exact solution.
+ */
+export function levenbergMarquardt(
+  residual: (x: number[]) => number[],
+  x0: number[],
+  options: LevenbergMarquardtOptions = { maxIterations: 60, tolerance: 1e-9, fdStep: 1e-6 }
+): LevenbergMarquardtResult {
+  const cost = (r: number[]) => r.reduce((acc, ri) => acc + ri * ri, 0);
+  const maxAbs = (r: number[]) => r.reduce((acc, ri) => Math.max(acc, Math.abs(ri)), 0);
+
+  let x = [...x0];
+  let r = residual(x);
+  let mu = 1e-3;
+  let iter = 0;
+
+  for (; iter < options.maxIterations && maxAbs(r) >= options.tolerance; iter++) {
+    const J = x.map((xj, j) => {
+      const xp = [...x];
+      const h = options.fdStep * (1 + Math.abs(xj));
+      xp[j] += h;
+      const rp = residual(xp);
+      return rp.map((ri, i) => (ri - r[i]) / h);
+    }); // J[j][i] = ∂r_i/∂x_j
+    const JtJ = J.map(a => J.map(b => a.reduce((acc, ai, i) => acc + ai * b[i], 0)));
+    const Jtr = J.map(a => a.reduce((acc, ai, i) => acc + ai * r[i], 0));
+
+    // Raise the damping until a step lowers the cost
+    let improved = false;
+    while (mu < 1e12) {
+      const A = JtJ.map((row, i) => row.map((v, k) => (i === k ? v + mu * (v + 1e-9) : v)));
+      const delta = solveLinearSystem(A, Jtr.map(v => -v));
+      if (delta) {
+        const trial = x.map((xj, j) => xj + delta[j]);
+        const rTrial = residual(trial);
+        if (rTrial.every(isFinite) && cost(rTrial) < cost(r)) {
+          const stepSize = maxAbs(delta);
+          x = trial;
+          r = rTrial;
+          mu = Math.max(mu / 3, 1e-12);
+          improved = stepSize > 1e-14;
+          break;
+        }
+      }
+      mu *= 4;
+    }
+    if (!improved) break;
+  }
+
+  const norm = maxAbs(r);
+  return { x, residual: norm, iterations: iter, converged: norm < options.tolerance };
+}
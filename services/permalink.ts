@@ -0,0 +1,160 @@
+import { AnalysisState, BeamModelType, CrossSectionType, GravityDirection, LoadMode, PrbParameters, SectionDimensions, TaperType, UnitSystem } from '../types';
+import { taperError } from './sectionProperties';
+
+export const PERMALINK_VERSION = 1;
+
+// The URL hash key that holds the encoded state, as in #s=1.<payload>
+const HASH_KEY = 's';
+
+// Version 1 stores enums by their index in these lists: append new members, never reorder
+const UNIT_SYSTEMS_V1 = [UnitSystem.METRIC, UnitSystem.ENGLISH];
+const SECTIONS_V1 = [
+  CrossSectionType.RECTANGULAR, CrossSectionType.CIRCULAR, CrossSectionType.HOLLOW_TUBE, CrossSectionType.RECT_TUBE,
+  CrossSectionType.I_BEAM, CrossSectionType.T_SECTION, CrossSectionType.ELLIPTICAL
+];
+const TAPERS_V1 = [TaperType.UNIFORM, TaperType.LINEAR, TaperType.PARABOLIC, TaperType.TABLE];
+const LOAD_MODES_V1 = [LoadMode.FIXED, LoadMode.FOLLOWER];
+const GRAVITY_V1 = [GravityDirection.OFF, GravityDirection.NEG_Y, GravityDirection.POS_Y, GravityDirection.NEG_X, GravityDirection.POS_X];
+const MODELS_V1 = [
+  BeamModelType.LINEAR, BeamModelType.NONLINEAR, BeamModelType.NONLINEAR_GUIDED,
+  BeamModelType.PRB_1R_CANTILEVER_P, BeamModelType.PRB_1R_CANTILEVER_PNP, BeamModelType.PRB_1R_FIXED_GUIDED,
+  BeamModelType.PRB_1R_MOMENT, BeamModelType.PRB_1R_CURVED, BeamModelType.PRB_1R_FLEXURAL_PIVOT,
+  BeamModelType.PRB_3R_SU, BeamModelType.PRB_NR_CUSTOM
+];
+const DIMENSION_KEYS_V1: (keyof SectionDimensions)[] = ['width', 'height', 'diameter', 'wall', 'flange', 'web'];
+const PARAM_KEYS_V1 = ['E', 'L', 'P', 'nP', 'M0', 'q', 'density', 'kappa0', 'flexLength', 'rigidLength'] as const;
+
+// Positional arrays keep the payload short; field names are documented here instead
+interface PayloadV1 {
+  v: 1;
+  u: number;                                              // Unit system
+  s: number;                                              // Section type
+  d: number[];                                            // Dimensions, in DIMENSION_KEYS_V1 order
+  t: [number, number, number, [number, number, number][]]; // Taper type, tip b and h ratios, stations (s, b, h)
+  m: [string, number, number, number, number, number];    // Material name, E, S_y, S_e, density, custom flag
+  p: number[];                                            // Beam parameters, in PARAM_KEYS_V1 order
+  l: [number, number];                                    // Load mode, gravity direction
+  k: number[];                                            // Selected models
+  c: [number[], number[], number | null];                 // Custom PRB links, stiffness coefficients, c_θ
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+/**
+ * Encodes an analysis as `<version>.<base64url JSON>` for the URL hash.
+ */
+export function encodePermalink(state: AnalysisState): string {
+  const { taper, material, params, customPrb } = state;
+  const payload: PayloadV1 = {
+    v: 1,
+    u: UNIT_SYSTEMS_V1.indexOf(state.unitSystem),
+    s: SECTIONS_V1.indexOf(state.sectionType),
+    d: DIMENSION_KEYS_V1.map(key => state.dimensions[key]),
+    t: [TAPERS_V1.indexOf(taper.type), taper.tipWidth, taper.tipHeight, taper.stations.map(st => [st.s, st.width, st.height])],
+    m: [material.name, material.E, material.yieldStrength, material.fatigueStrength, material.density, material.custom ? 1 : 0],
+    p: PARAM_KEYS_V1.map(key => params[key]),
+    l: [LOAD_MODES_V1.indexOf(params.loadMode), GRAVITY_V1.indexOf(params.gravity)],
+    k: state.selectedModels.map(m => MODELS_V1.indexOf(m)),
+    c: [customPrb.links ?? [], customPrb.stiffness_coeffs ?? [], customPrb.c_theta ?? null]
+  };
+  return `${PERMALINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+const isNumber = (x: unknown): x is number => typeof x === 'number' && isFinite(x);
+const isNumberArray = (x: unknown, length?: number): x is number[] =>
+  Array.isArray(x) && x.every(isNumber) && (length === undefined || x.length === length);
+const enumAt = <T>(list: T[], index: unknown): T | undefined => (isNumber(index) ? list[index] : undefined);
+
+/**
+ * Reads a version 1 payload. Each part is checked on its own, so a damaged field
+ * falls back to the app default without discarding the rest.
+ */
+const decodeV1 = (payload: PayloadV1): Partial<AnalysisState> => {
+  const state: Partial<AnalysisState> = {};
+
+  const unitSystem = enumAt(UNIT_SYSTEMS_V1, payload.u);
+  if (unitSystem) state.unitSystem = unitSystem;
+  const sectionType = enumAt(SECTIONS_V1, payload.s);
+  if (sectionType) state.sectionType = sectionType;
+
+  // Dimensions are in the unit system's units (mm or in), so they are only usable alongside it
+  if (unitSystem && isNumberArray(payload.d, DIMENSION_KEYS_V1.length)) {
+    state.dimensions = Object.fromEntries(DIMENSION_KEYS_V1.map((key, i) => [key, payload.d[i]])) as unknown as SectionDimensions;
+  }
+
+  if (Array.isArray(payload.t)) {
+    const [type, tipWidth, tipHeight, stations] = payload.t;
+    const taperType = enumAt(TAPERS_V1, type);
+    if (taperType && isNumber(tipWidth) && isNumber(tipHeight) && Array.isArray(stations) && stations.every(st => isNumberArray(st, 3))) {
+      const taper = { type: taperType, tipWidth, tipHeight, stations: stations.map(([s, width, height]) => ({ s, width, height })) };
+      if (!taperError(taper)) state.taper = taper;
+    }
+  }
+
+  if (Array.isArray(payload.m)) {
+    const [name, E, yieldStrength, fatigueStrength, density, custom] = payload.m;
+    if (typeof name === 'string' && isNumberArray([E, yieldStrength, fatigueStrength, density])) {
+      state.material = { name, E, yieldStrength, fatigueStrength, density, ...(custom ? { custom: true } : {}) };
+    }
+  }
+
+  const loadMode = Array.isArray(payload.l) ? enumAt(LOAD_MODES_V1, payload.l[0]) : undefined;
+  const gravity = Array.isArray(payload.l) ? enumAt(GRAVITY_V1, payload.l[1]) : undefined;
+  if (isNumberArray(payload.p, PARAM_KEYS_V1.length) && loadMode && gravity) {
+    const values = Object.fromEntries(PARAM_KEYS_V1.map((key, i) => [key, payload.p[i]])) as Record<typeof PARAM_KEYS_V1[number], number>;
+    state.params = { ...values, loadMode, gravity };
+  }
+
+  if (Array.isArray(payload.k)) {
+    const models = payload.k.map(i => enumAt(MODELS_V1, i)).filter((m): m is BeamModelType => m !== undefined);
+    state.selectedModels = models;
+  }
+
+  if (Array.isArray(payload.c) && isNumberArray(payload.c[0]) && isNumberArray(payload.c[1])) {
+    const prb: PrbParameters = { links: payload.c[0], stiffness_coeffs: payload.c[1] };
+    if (isNumber(payload.c[2])) prb.c_theta = payload.c[2];
+    state.customPrb = prb;
+  }
+
+  return state;
+};
+
+// One decoder per version; old links keep opening after the format changes
+const DECODERS: Record<number, (payload: PayloadV1) => Partial<AnalysisState>> = {
+  1: decodeV1
+};
+
+/**
+ * Restores the state a permalink hash (`#s=<version>.<payload>`) describes, or
+ * null when the hash holds none, or one that is malformed or from an unknown version.
+ */
+export function decodePermalink(hash: string): Partial<AnalysisState> | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!encoded) return null;
+  const dot = encoded.indexOf('.');
+  const version = Number(encoded.slice(0, dot));
+  const decode = DECODERS[version];
+  if (dot < 0 || !decode) return null;
+  try {
+    return decode(JSON.parse(fromBase64Url(encoded.slice(dot + 1))));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL hash for a state, ready for `history.replaceState`.
+ */
+export function permalinkHash(state: AnalysisState): string {
+  return `#${HASH_KEY}=${encodePermalink(state)}`;
+}
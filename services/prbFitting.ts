@@ -0,0 +1,91 @@
+import { BeamParams, BeamResult, FitRangeType, PrbFitOptions, PrbFitResult, PrbFitSample, PrbParameters } from '../types';
+import { solveNonlinearBeam, solvePRBnR } from './beamSolver';
+import { nelderMead } from './optimizer';
+
+// Weight on the tip-angle error relative to the normalised tip-position error
+const ANGLE_WEIGHT = 0.25;
+
+/**
+ * Loads at each point of the fit range, following the same conventions as the load sweep.
+ */
+export function fitRangeParams(params: BeamParams, options: PrbFitOptions): { rangeValue: number; params: BeamParams }[] {
+  const count = Math.max(2, Math.round(options.samples));
+  const F = Math.hypot(params.P, params.nP);
+
+  return Array.from({ length: count }, (_, i) => {
+    const rangeValue = options.rangeStart + (options.rangeEnd - options.rangeStart) * (i / (count - 1));
+    if (options.rangeType === FitRangeType.LOAD_ANGLE) {
+      const phi = rangeValue * (Math.PI / 180);
+      return { rangeValue, params: { ...params, P: F * Math.sin(phi), nP: F * Math.cos(phi) } };
+    }
+    return {
+      rangeValue,
+      params: { ...params, P: params.P * rangeValue, nP: params.nP * rangeValue, M0: params.M0 * rangeValue }
+    };
+  });
+}
+
+// Free variables: γ₁..γₙ (γ₀ = 1 − Σγᵢ), then ln K_c1..ln K_cn so the springs stay
+// positive. A 1R fit also frees c_θ, since one link cannot match tip angle and position otherwise.
+const toPrb = (x: number[], joints: number): PrbParameters => {
+  const tail = x.slice(0, joints);
+  return {
+    links: [1 - tail.reduce((acc, g) => acc + g, 0), ...tail],
+    stiffness_coeffs: x.slice(joints, 2 * joints).map(Math.exp),
+    ...(joints === 1 ? { c_theta: x[2] } : {})
+  };
+};
+
+const initialGuess = (joints: number): number[] => {
+  if (joints === 1) return [0.85, Math.log(0.85 * 2.65), 1.24];
+  if (joints === 3) return [0.35, 0.40, 0.15, Math.log(3.51), Math.log(2.99), Math.log(2.58)];
+  const g = 0.9 / joints;
+  return [...new Array(joints).fill(g), ...new Array(joints).fill(Math.log(joints))];
+};
+
+const compare = (prb: BeamResult, reference: BeamResult, L: number) => ({
+  positionError: Math.hypot(prb.tipX - reference.tipX, prb.tipY - reference.tipY) / L,
+  angleError: Math.abs(prb.tipAngle - reference.tipAngle)
+});
+
+/**
+ * Fits PRB link ratios and spring coefficients to the nonlinear solution over a
+ * load range, minimising the summed squared tip-position and tip-angle errors.
+ */
+export function fitPrbParameters(params: BeamParams, options: PrbFitOptions): PrbFitResult {
+  const joints = Math.max(1, Math.round(options.joints));
+  const cases = fitRangeParams(params, options).map(c => ({
+    ...c,
+    reference: solveNonlinearBeam(c.params)
+  }));
+
+  const objective = (x: number[]) => {
+    const prb = toPrb(x, joints);
+    if (prb.links!.some(g => g < 0)) return Number.MAX_VALUE;
+    return cases.reduce((acc, c) => {
+      const e = compare(solvePRBnR(c.params, prb), c.reference, params.L);
+      return acc + e.positionError ** 2 + ANGLE_WEIGHT * e.angleError ** 2;
+    }, 0);
+  };
+
+  const best = nelderMead(objective, initialGuess(joints), {
+    maxEvaluations: 600 * joints,
+    tolerance: 1e-14,
+    initialStep: 0.05
+  });
+  const prb = toPrb(best.x, joints);
+
+  const samples: PrbFitSample[] = cases.map(c => ({
+    rangeValue: c.rangeValue,
+    ...compare(solvePRBnR(c.params, prb), c.reference, params.L)
+  }));
+
+  return {
+    prb,
+    rangeType: options.rangeType,
+    samples,
+    maxPositionError: Math.max(...samples.map(s => s.positionError)),
+    maxAngleError: Math.max(...samples.map(s => s.angleError)),
+    evaluations: best.evaluations
+  };
+}
@@ -0,0 +1,70 @@
+const DEG = Math.PI / 180;
+
+export interface CantileverForceParameters {
+  n: number;
+  gamma: number;      // Characteristic radius factor γ
+  K_theta: number;    // Stiffness coefficient K_Θ
+  c_theta: number;    // Tip angle coefficient c_θ (θ₀ = c_θ·Θ)
+  thetaMax: number;   // Largest PRB angle Θ (rad) the parameters hold to
+}
+
+/**
+ * Handbook parameters of the 1R cantilever with a tip force (−nP, P), tabulated
+ * against the load ratio n. Positive n is compressive; the load angle is
+ * φ = atan2(1, −n).
+ */
+export const CANTILEVER_FORCE_TABLE: CantileverForceParameters[] = [
+  { n: -5.0, gamma: 0.8401, K_theta: 2.74717, c_theta: 1.1788, thetaMax: 20.5 * DEG },
+  { n: -4.0, gamma: 0.8522, K_theta: 2.73740, c_theta: 1.1971, thetaMax: 24.0 * DEG },
+  { n: -3.0, gamma: 0.8669, K_theta: 2.72405, c_theta: 1.2119, thetaMax: 28.7 * DEG },
+  { n: -2.0, gamma: 0.8813, K_theta: 2.71130, c_theta: 1.2278, thetaMax: 35.3 * DEG },
+  { n: -1.5, gamma: 0.8796, K_theta: 2.70176, c_theta: 1.2329, thetaMax: 39.7 * DEG },
+  { n: -1.0, gamma: 0.8707, K_theta: 2.69215, c_theta: 1.2356, thetaMax: 45.4 * DEG },
+  { n: -0.5, gamma: 0.8612, K_theta: 2.68140, c_theta: 1.2373, thetaMax: 52.3 * DEG },
+  { n: 0.0, gamma: 0.8517, K_theta: 2.67617, c_theta: 1.2385, thetaMax: 64.3 * DEG },
+  { n: 0.5, gamma: 0.8430, K_theta: 2.63744, c_theta: 1.2430, thetaMax: 81.8 * DEG },
+  { n: 1.0, gamma: 0.8360, K_theta: 2.61259, c_theta: 1.2467, thetaMax: 94.8 * DEG },
+  { n: 1.5, gamma: 0.8311, K_theta: 2.59289, c_theta: 1.2492, thetaMax: 100.5 * DEG },
+  { n: 2.0, gamma: 0.8276, K_theta: 2.57923, c_theta: 1.2511, thetaMax: 106.9 * DEG },
+  { n: 3.0, gamma: 0.8232, K_theta: 2.56115, c_theta: 1.2534, thetaMax: 116.9 * DEG },
+  { n: 4.0, gamma: 0.8207, K_theta: 2.54915, c_theta: 1.2548, thetaMax: 120.5 * DEG },
+  { n: 5.0, gamma: 0.8192, K_theta: 2.54280, c_theta: 1.2557, thetaMax: 126.2 * DEG },
+  { n: 7.5, gamma: 0.8156, K_theta: 2.53153, c_theta: 1.2570, thetaMax: 131.1 * DEG },
+  { n: 10.0, gamma: 0.8139, K_theta: 2.52368, c_theta: 1.2578, thetaMax: 134.0 * DEG }
+];
+
+// Range of n the table covers
+export const PRB_N_RANGE: [number, number] = [
+  CANTILEVER_FORCE_TABLE[0].n,
+  CANTILEVER_FORCE_TABLE[CANTILEVER_FORCE_TABLE.length - 1].n
+];
+
+/**
+ * Load ratio n = nP/|P|. Its sign follows the axial load alone, so mirror-image loads
+ * (P and −P) share parameters. A pure axial load has n = ±∞; an unloaded beam reads as n = 0.
+ */
+export function loadRatio(P: number, nP: number): number {
+  if (P !== 0) return nP / Math.abs(P);
+  return nP === 0 ? 0 : Math.sign(nP) * Infinity;
+}
+
+/**
+ * Cantilever force parameters at load ratio n, interpolated linearly between
+ * table rows; n beyond the table takes the end row.
+ */
+export function cantileverForceParameters(n: number): CantileverForceParameters {
+  const table = CANTILEVER_FORCE_TABLE;
+  if (!(n > table[0].n)) return { ...table[0], n };
+  if (n >= table[table.length - 1].n) return { ...table[table.length - 1], n };
+  const hi = table.findIndex(row => row.n >= n);
+  const lo = table[hi - 1];
+  const up = table[hi];
+  const t = (n - lo.n) / (up.n - lo.n);
+  return {
+    n,
+    gamma: lo.gamma + t * (up.gamma - lo.gamma),
+    K_theta: lo.K_theta + t * (up.K_theta - lo.K_theta),
+    c_theta: lo.c_theta + t * (up.c_theta - lo.c_theta),
+    thetaMax: lo.thetaMax + t * (up.thetaMax - lo.thetaMax)
+  };
+}
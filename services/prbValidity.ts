@@ -0,0 +1,57 @@
+import { BeamModelType, BeamParams, PrbValidity } from '../types';
+import { cantileverForceParameters, loadRatio, PRB_N_RANGE } from './prbParameters';
+
+const DEG = Math.PI / 180;
+
+// Handbook A.1.5: the end-moment model holds to Θ = 124.4°
+const MOMENT_THETA_MAX = 124.4 * DEG;
+
+// Handbook A.1.6 tabulates ρ and c_θ for κ₀L up to 2
+const CURVED_KAPPA_MAX = 2.0;
+
+// A small-length flexural pivot needs a flexure much shorter than the rigid link
+const PIVOT_MAX_LENGTH_RATIO = 0.1;
+
+const formatRatio = (n: number) => (isFinite(n) ? n.toFixed(2) : n > 0 ? '∞' : '−∞');
+
+/**
+ * Checks a 1R PRB solution against the range its parameters were fitted over.
+ * `Theta` is the PRB angle measured from the unstressed link. Models without
+ * published limits (3R, custom nR) return undefined.
+ */
+export function prbValidity(model: BeamModelType, params: BeamParams, Theta: number): PrbValidity | undefined {
+  const warnings: string[] = [];
+  const n = loadRatio(params.P, params.nP);
+  let thetaMax: number | undefined;
+
+  switch (model) {
+    case BeamModelType.PRB_1R_CANTILEVER_P:
+    case BeamModelType.PRB_1R_CANTILEVER_PNP:
+    case BeamModelType.PRB_1R_FIXED_GUIDED:
+      thetaMax = cantileverForceParameters(n).thetaMax;
+      if (model === BeamModelType.PRB_1R_CANTILEVER_PNP && !(n >= PRB_N_RANGE[0] && n <= PRB_N_RANGE[1])) {
+        warnings.push(`n = ${formatRatio(n)} is outside the tabulated range (${PRB_N_RANGE[0]} to ${PRB_N_RANGE[1]}); γ is clamped`);
+      }
+      break;
+    case BeamModelType.PRB_1R_MOMENT:
+      thetaMax = MOMENT_THETA_MAX;
+      break;
+    case BeamModelType.PRB_1R_CURVED: {
+      const k0 = Math.abs(params.kappa0 * params.L);
+      if (k0 > CURVED_KAPPA_MAX) warnings.push(`κ₀L = ${k0.toFixed(2)} is beyond the table (0 to ${CURVED_KAPPA_MAX}); ρ and c_θ are clamped`);
+      break;
+    }
+    case BeamModelType.PRB_1R_FLEXURAL_PIVOT: {
+      const ratio = params.flexLength / (params.flexLength + params.rigidLength);
+      if (ratio > PIVOT_MAX_LENGTH_RATIO) warnings.push(`l/L = ${ratio.toFixed(2)} is too long for a small-length flexural pivot (at most ${PIVOT_MAX_LENGTH_RATIO})`);
+      break;
+    }
+    default:
+      return undefined;
+  }
+
+  if (thetaMax !== undefined && Math.abs(Theta) > thetaMax) {
+    warnings.push(`Θ = ${(Math.abs(Theta) / DEG).toFixed(1)}° exceeds Θ_max = ${(thetaMax / DEG).toFixed(1)}° for n = ${formatRatio(n)}`);
+  }
+  return { valid: warnings.length === 0, thetaMax, warnings };
+}
@@ -0,0 +1,177 @@
+import { AnalysisState, BeamModelType, CrossSectionType, GravityDirection, LoadMode, Material, PrbParameters, ProjectFile, SectionDimensions, SectionTaper, TaperType, UnitSystem } from '../types';
+import { taperError } from './sectionProperties';
+
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = '.prb.json';
+
+/**
+ * Upgrades, keyed by the version they upgrade from: MIGRATIONS[n] turns a version n
+ * file into version n + 1. Add an entry whenever the saved shape changes, so files
+ * in a shared folder keep loading.
+ */
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export interface LoadedProject {
+  name: string;
+  description: string;
+  savedAt: string;
+  state: Partial<AnalysisState>;  // Fields that failed validation are left out
+  customMaterials: Material[];
+  warnings: string[];             // What was skipped or upgraded while loading
+}
+
+export function createProjectFile(name: string, description: string, state: AnalysisState, customMaterials: Material[]): ProjectFile {
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name,
+    description,
+    savedAt: new Date().toISOString(),
+    state,
+    customMaterials
+  };
+}
+
+export function serializeProject(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * File name for a project: its name with anything unsafe in a path replaced.
+ */
+export function projectFileName(name: string): string {
+  return (name.trim().replace(/[^\w\-]+/g, '_') || 'analysis') + PROJECT_FILE_EXTENSION;
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (x: unknown): x is Json => typeof x === 'object' && x !== null && !Array.isArray(x);
+const isNumber = (x: unknown): x is number => typeof x === 'number' && isFinite(x);
+const isNumberArray = (x: unknown): x is number[] => Array.isArray(x) && x.every(isNumber);
+const isMember = <T extends string>(values: Record<string, T>, x: unknown): x is T =>
+  typeof x === 'string' && (Object.values(values) as string[]).includes(x);
+
+const numberFields = <K extends string>(source: unknown, keys: readonly K[]): Record<K, number> | undefined => {
+  if (!isObject(source) || !keys.every(key => isNumber(source[key]))) return undefined;
+  return Object.fromEntries(keys.map(key => [key, source[key]])) as Record<K, number>;
+};
+
+const readMaterial = (x: unknown): Material | undefined => {
+  if (!isObject(x) || typeof x.name !== 'string') return undefined;
+  const values = numberFields(x, ['E', 'yieldStrength', 'fatigueStrength', 'density'] as const);
+  return values && { name: x.name, ...values, ...(x.custom ? { custom: true } : {}) };
+};
+
+const DIMENSION_KEYS = ['width', 'height', 'diameter', 'wall', 'flange', 'web'] as const;
+const PARAM_KEYS = ['E', 'L', 'P', 'nP', 'M0', 'q', 'density', 'kappa0', 'flexLength', 'rigidLength'] as const;
+
+/**
+ * Checks each part of a current-version state on its own, keeping what is valid
+ * and noting what is not.
+ */
+const readState = (source: unknown, warnings: string[]): Partial<AnalysisState> => {
+  const state: Partial<AnalysisState> = {};
+  if (!isObject(source)) {
+    warnings.push('The file holds no analysis state; defaults are used.');
+    return state;
+  }
+  const skip = (field: string) => warnings.push(`${field} could not be read; the current value is kept.`);
+
+  if (isMember(UnitSystem, source.unitSystem)) state.unitSystem = source.unitSystem; else skip('Unit system');
+  if (isMember(CrossSectionType, source.sectionType)) state.sectionType = source.sectionType; else skip('Section type');
+
+  // Dimensions are in the unit system's units (mm or in), so they are only usable alongside it
+  const dimensions = numberFields(source.dimensions, DIMENSION_KEYS);
+  if (!dimensions) skip('Section dimensions');
+  else if (!state.unitSystem) warnings.push('Section dimensions were skipped because their unit system could not be read.');
+  else state.dimensions = dimensions as SectionDimensions;
+
+  const taper = source.taper;
+  if (isObject(taper) && isMember(TaperType, taper.type) && isNumber(taper.tipWidth) && isNumber(taper.tipHeight) && Array.isArray(taper.stations)) {
+    const stations = taper.stations.map(st => numberFields(st, ['s', 'width', 'height'] as const));
+    const read = { type: taper.type, tipWidth: taper.tipWidth, tipHeight: taper.tipHeight, stations } as SectionTaper;
+    if (stations.every(st => st !== undefined) && !taperError(read)) {
+      state.taper = read;
+    } else {
+      skip('Taper');
+    }
+  } else {
+    skip('Taper');
+  }
+
+  const material = readMaterial(source.material);
+  if (material) state.material = material; else skip('Material');
+
+  const params = source.params;
+  const values = numberFields(params, PARAM_KEYS);
+  if (values && isObject(params) && isMember(LoadMode, params.loadMode) && isMember(GravityDirection, params.gravity)) {
+    state.params = { ...values, loadMode: params.loadMode, gravity: params.gravity };
+  } else {
+    skip('Beam parameters');
+  }
+
+  if (Array.isArray(source.selectedModels)) {
+    const models = source.selectedModels.filter((m): m is BeamModelType => isMember(BeamModelType, m));
+    source.selectedModels
+      .filter(m => !isMember(BeamModelType, m))
+      .forEach(m => warnings.push(`Unknown model "${String(m)}" was skipped.`));
+    state.selectedModels = models;
+  } else {
+    skip('Model selection');
+  }
+
+  const prb = source.customPrb;
+  if (isObject(prb) && isNumberArray(prb.links) && isNumberArray(prb.stiffness_coeffs)) {
+    const customPrb: PrbParameters = { links: prb.links, stiffness_coeffs: prb.stiffness_coeffs };
+    if (isNumber(prb.c_theta)) customPrb.c_theta = prb.c_theta;
+    state.customPrb = customPrb;
+  } else {
+    skip('Custom PRB parameters');
+  }
+
+  return state;
+};
+
+/**
+ * Reads a project file, upgrading older schema versions through MIGRATIONS.
+ * Returns an error for text that is not a project file or that a newer version
+ * of the app saved.
+ */
+export function parseProjectFile(text: string): { project: LoadedProject } | { error: string } {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { error: 'The file is not valid JSON.' };
+  }
+  if (!isObject(file) || !isNumber(file.schemaVersion) || !Number.isInteger(file.schemaVersion) || file.schemaVersion < 1) {
+    return { error: 'The file is not a project file (no schema version).' };
+  }
+  if (file.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    return { error: `The file uses schema version ${file.schemaVersion}, newer than this app supports (${PROJECT_SCHEMA_VERSION}).` };
+  }
+
+  const warnings: string[] = [];
+  let current: Json = file;
+  for (let version = file.schemaVersion; version < PROJECT_SCHEMA_VERSION; version++) {
+    current = { ...MIGRATIONS[version](current), schemaVersion: version + 1 };
+  }
+  if (file.schemaVersion < PROJECT_SCHEMA_VERSION) {
+    warnings.push(`Upgraded from schema version ${file.schemaVersion} to ${PROJECT_SCHEMA_VERSION}.`);
+  }
+
+  const customMaterials = Array.isArray(current.customMaterials)
+    ? current.customMaterials.map(readMaterial).filter((m): m is Material => m !== undefined).map(m => ({ ...m, custom: true }))
+    : [];
+
+  return {
+    project: {
+      name: typeof current.name === 'string' ? current.name : '',
+      description: typeof current.description === 'string' ? current.description : '',
+      savedAt: typeof current.savedAt === 'string' ? current.savedAt : '',
+      state: readState(current.state, warnings),
+      customMaterials,
+      warnings
+    }
+  };
+}
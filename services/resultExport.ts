@@ -0,0 +1,187 @@
+import { BeamResult, Point, UnitSystem } from '../types';
+import { factorOfSafety } from './materials';
+import { curvedTip } from './beamSolver';
+
+interface ExportUnits {
+  length: string;
+  lengthScale: number;  // From metres
+  stress: string;
+  stressScale: number;  // From pascals
+  energy: string;
+  energyScale: number;  // From joules
+}
+
+// CSV lengths follow the results table (m or in); drawings use mm or in, as CAD expects
+const csvUnits = (unitSystem: UnitSystem): ExportUnits => unitSystem === UnitSystem.METRIC
+  ? { length: 'm', lengthScale: 1, stress: 'MPa', stressScale: 1e-6, energy: 'J', energyScale: 1 }
+  : { length: 'in', lengthScale: 1 / 0.0254, stress: 'ksi', stressScale: 1 / 6.89476e6, energy: 'lbf-in', energyScale: 1 / 0.112985 };
+
+const drawingUnits = (unitSystem: UnitSystem) => unitSystem === UnitSystem.METRIC
+  ? { length: 'mm', lengthScale: 1000 }
+  : { length: 'in', lengthScale: 1 / 0.0254 };
+
+const csvField = (value: string | number | boolean | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLines = (rows: (string | number | boolean | undefined)[][]) => rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+
+const fixed = (x: number) => parseFloat(x.toPrecision(10));
+
+/**
+ * Each model's primary and alternate solutions, numbered 0 (primary) upwards.
+ */
+const equilibria = (results: BeamResult[]) =>
+  results.flatMap(r => [r, ...(r.alternates ?? [])].map((solution, k) => ({ model: r.label, color: r.color, k, solution })));
+
+/**
+ * Deformed shapes as CSV, one row per point: model, equilibrium (0 is the reported
+ * solution, higher numbers the alternates), point index and coordinates.
+ */
+export function shapeCsv(results: BeamResult[], unitSystem: UnitSystem): string {
+  const u = csvUnits(unitSystem);
+  const rows = equilibria(results).flatMap(({ model, k, solution }) =>
+    solution.points.map((p, i) => [model, k, i, fixed(p.x * u.lengthScale), fixed(p.y * u.lengthScale)])
+  );
+  return csvLines([['model', 'equilibrium', 'point', `x (${u.length})`, `y (${u.length})`], ...rows]);
+}
+
+/**
+ * Tip results as CSV, one row per solution, with the same quantities as the results table.
+ */
+export function resultsCsv(results: BeamResult[], unitSystem: UnitSystem, yieldStrength: number): string {
+  const u = csvUnits(unitSystem);
+  const rows = equilibria(results).map(({ model, k, solution: r }) => [
+    model,
+    k,
+    fixed(r.tipX * u.lengthScale),
+    fixed(r.tipY * u.lengthScale),
+    fixed(r.tipAngle * (180 / Math.PI)),
+    fixed(r.maxStress * u.stressScale),
+    fixed(r.strainEnergy * u.energyScale),
+    isFinite(factorOfSafety(r.maxStress, yieldStrength)) ? fixed(factorOfSafety(r.maxStress, yieldStrength)) : 'inf',
+    r.converged,
+    r.iterations,
+    r.residual,
+    r.stable,
+    r.validity?.valid
+  ]);
+  return csvLines([[
+    'model', 'equilibrium', `tip x (${u.length})`, `tip y (${u.length})`, 'tip angle (deg)', `max stress (${u.stress})`,
+    `strain energy (${u.energy})`, 'yield FoS', 'converged', 'iterations', 'residual', 'stable', 'within PRB range'
+  ], ...rows]);
+}
+
+const undeformedShape = (length: number, kappa0: number): Point[] =>
+  Array.from({ length: 41 }, (_, i) => curvedTip((i / 40) * length, kappa0));
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The deformed shapes as a standalone SVG drawn at true scale: the document's width and
+ * height carry real units (mm or in), so one drawing unit is one unit of length.
+ * Alternate equilibria are dashed; the unstressed shape is a grey dashed reference.
+ */
+export function shapeSvg(results: BeamResult[], length: number, kappa0: number, unitSystem: UnitSystem): string {
+  const u = drawingUnits(unitSystem);
+  const undeformed = undeformedShape(length, kappa0);
+  const all = [...undeformed, ...equilibria(results).flatMap(e => e.solution.points)];
+  const margin = 0.1 * length * u.lengthScale;
+  const minX = Math.min(...all.map(p => p.x)) * u.lengthScale - margin;
+  const maxX = Math.max(...all.map(p => p.x)) * u.lengthScale + margin;
+  const minY = Math.min(...all.map(p => p.y)) * u.lengthScale - margin;
+  const maxY = Math.max(...all.map(p => p.y)) * u.lengthScale + margin;
+  const width = fixed(maxX - minX);
+  const height = fixed(maxY - minY);
+  const stroke = fixed(length * u.lengthScale / 250);
+
+  // SVG y runs down, so flip about the drawing's top edge
+  const polyline = (points: Point[], color: string, dashed: boolean, opacity: number = 1) => {
+    const coords = points.map(p => `${fixed(p.x * u.lengthScale - minX)},${fixed(maxY - p.y * u.lengthScale)}`).join(' ');
+    const dash = dashed ? ` stroke-dasharray="${fixed(stroke * 4)},${fixed(stroke * 3)}"` : '';
+    return `  <polyline points="${coords}" fill="none" stroke="${color}" stroke-width="${stroke}" stroke-linecap="round" stroke-linejoin="round"${dash} opacity="${opacity}"/>`;
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}${u.length}" height="${height}${u.length}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>Deformed shapes (${u.length})</title>`,
+    `  <rect x="0" y="0" width="${width}" height="${height}" fill="white"/>`,
+    polyline(undeformed, '#94a3b8', true),
+    ...equilibria(results).map(({ model, color, k, solution }) =>
+      `  <g id="${escapeXml(`${model}-${k}`)}">\n  ${polyline(solution.points, color, k > 0, k > 0 && solution.stable === false ? 0.4 : 1)}\n  </g>`
+    )
+  ];
+  const fontSize = fixed(stroke * 6);
+  results.forEach((r, i) => {
+    lines.push(`  <text x="${fixed(stroke * 4)}" y="${fixed(fontSize * (i + 1.5))}" font-family="sans-serif" font-size="${fontSize}" fill="${r.color}">${escapeXml(r.label)}</text>`);
+  });
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+}
+
+// AutoCAD colour index for each model's layer, cycling through the basic colours
+const DXF_COLORS = [5, 1, 3, 30, 6, 4, 2, 8];
+
+const dxfLayerName = (name: string) => name.toUpperCase().replace(/[^A-Z0-9_\-]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * The deformed shapes as an AutoCAD R12 DXF: each solution is a 2D polyline on a layer
+ * named for its model, with alternates on `<model>_ALT` and the unstressed shape on
+ * UNDEFORMED. Coordinates are in mm (metric) or in (English); R12 has no unit header
+ * variable, so the unit is only noted in a leading comment and must be chosen on import.
+ */
+export function shapeDxf(results: BeamResult[], length: number, kappa0: number, unitSystem: UnitSystem): string {
+  const u = drawingUnits(unitSystem);
+  const layers = [{ name: 'UNDEFORMED', color: 8 }];
+  const polylines: { layer: string; points: Point[] }[] = [{ layer: 'UNDEFORMED', points: undeformedShape(length, kappa0) }];
+
+  results.forEach((r, i) => {
+    const layer = dxfLayerName(r.label) || `MODEL_${i + 1}`;
+    const color = DXF_COLORS[i % DXF_COLORS.length];
+    layers.push({ name: layer, color });
+    polylines.push({ layer, points: r.points });
+    if (r.alternates?.length) {
+      layers.push({ name: `${layer}_ALT`, color });
+      r.alternates.forEach(a => polylines.push({ layer: `${layer}_ALT`, points: a.points }));
+    }
+  });
+
+  const codes: (string | number)[] = [
+    999, `Deformed shapes, units: ${u.length}`,
+    0, 'SECTION', 2, 'HEADER',
+    9, '$ACADVER', 1, 'AC1009',
+    0, 'ENDSEC',
+    0, 'SECTION', 2, 'TABLES',
+    0, 'TABLE', 2, 'LAYER', 70, layers.length,
+    ...layers.flatMap(l => [0, 'LAYER', 2, l.name, 70, 0, 62, l.color, 6, 'CONTINUOUS']),
+    0, 'ENDTAB',
+    0, 'ENDSEC',
+    0, 'SECTION', 2, 'ENTITIES',
+    ...polylines.filter(p => p.points.length >= 2).flatMap(({ layer, points }) => [
+      0, 'POLYLINE', 8, layer, 66, 1, 70, 0, 10, 0, 20, 0, 30, 0,
+      ...points.flatMap(p => [0, 'VERTEX', 8, layer, 10, fixed(p.x * u.lengthScale), 20, fixed(p.y * u.lengthScale), 30, 0]),
+      0, 'SEQEND', 8, layer
+    ]),
+    0, 'ENDSEC',
+    0, 'EOF'
+  ];
+
+  const lines: string[] = [];
+  for (let i = 0; i < codes.length; i += 2) lines.push(String(codes[i]).padStart(3), String(codes[i + 1]));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Saves text as a file through the browser's download prompt.
+ */
+export function downloadText(fileName: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,141 @@
+import { CrossSectionType, SectionDimensions, SectionProperties, SectionSample, SectionTaper, TaperType, UnitSystem } from '../types';
+
+/**
+ * Converts section dimensions from display units (mm or in) to metres.
+ */
+export function dimensionsToSI(dims: SectionDimensions, unitSystem: UnitSystem): SectionDimensions {
+  return scaleDimensions(dims, unitSystem === UnitSystem.METRIC ? 1 / 1000 : 0.0254);
+}
+
+/**
+ * Multiplies every dimension by `factor`, e.g. 25.4 to go from inches to millimetres.
+ */
+export function scaleDimensions(dims: SectionDimensions, factor: number): SectionDimensions {
+  return {
+    width: dims.width * factor,
+    height: dims.height * factor,
+    diameter: dims.diameter * factor,
+    wall: dims.wall * factor,
+    flange: dims.flange * factor,
+    web: dims.web * factor
+  };
+}
+
+/**
+ * I, c and A of a section (dimensions in metres) for bending about its
+ * horizontal axis. Walls thicker than the section allows close it up into the
+ * solid outline. The T-section has its flange on top, so its neutral axis sits
+ * above mid-depth and c is measured to the bottom of the web.
+ */
+export function sectionProperties(type: CrossSectionType, dims: SectionDimensions): SectionProperties {
+  const { width: b, height: h, diameter: D, wall: t, flange: tf, web: tw } = dims;
+
+  switch (type) {
+    case CrossSectionType.RECTANGULAR:
+      return { I: (b * Math.pow(h, 3)) / 12, c: h / 2, A: b * h };
+    case CrossSectionType.CIRCULAR:
+      return { I: (Math.PI * Math.pow(D, 4)) / 64, c: D / 2, A: (Math.PI * Math.pow(D, 2)) / 4 };
+    case CrossSectionType.HOLLOW_TUBE: {
+      const d = Math.max(0, D - 2 * t);
+      return {
+        I: (Math.PI * (Math.pow(D, 4) - Math.pow(d, 4))) / 64,
+        c: D / 2,
+        A: (Math.PI * (Math.pow(D, 2) - Math.pow(d, 2))) / 4
+      };
+    }
+    case CrossSectionType.RECT_TUBE: {
+      const bi = Math.max(0, b - 2 * t);
+      const hi = Math.max(0, h - 2 * t);
+      return { I: (b * Math.pow(h, 3) - bi * Math.pow(hi, 3)) / 12, c: h / 2, A: b * h - bi * hi };
+    }
+    case CrossSectionType.I_BEAM: {
+      const webWidth = Math.min(tw, b);
+      const hw = Math.max(0, h - 2 * tf);
+      return {
+        I: (b * Math.pow(h, 3) - (b - webWidth) * Math.pow(hw, 3)) / 12,
+        c: h / 2,
+        A: b * (h - hw) + webWidth * hw
+      };
+    }
+    case CrossSectionType.T_SECTION: {
+      const flange = Math.min(tf, h);
+      const hw = h - flange;
+      const webWidth = Math.min(tw, b);
+      const Af = b * flange;
+      const Aw = webWidth * hw;
+      const A = Af + Aw;
+      // Neutral axis height above the bottom of the web
+      const yBar = A > 0 ? (Af * (h - flange / 2) + Aw * (hw / 2)) / A : h / 2;
+      const I = (b * Math.pow(flange, 3)) / 12 + Af * Math.pow(h - flange / 2 - yBar, 2)
+        + (webWidth * Math.pow(hw, 3)) / 12 + Aw * Math.pow(hw / 2 - yBar, 2);
+      return { I, c: Math.max(yBar, h - yBar), A };
+    }
+    case CrossSectionType.ELLIPTICAL:
+      return { I: (Math.PI * b * Math.pow(h, 3)) / 64, c: h / 2, A: (Math.PI * b * h) / 4 };
+  }
+}
+
+/**
+ * Why a taper can't be solved, or undefined when it can. Every width and height ratio
+ * needs to be positive: a section tapered to nothing has no stiffness at that point.
+ */
+export function taperError(taper: SectionTaper): string | undefined {
+  const ratios = [taper.tipWidth, taper.tipHeight, ...taper.stations.flatMap(st => [st.width, st.height])];
+  return ratios.every(r => r > 0) ? undefined : 'Taper ratios must be positive.';
+}
+
+/**
+ * Width and height ratios (relative to the root) at arc-length fraction t.
+ */
+export function taperRatios(taper: SectionTaper, t: number): { width: number; height: number } {
+  switch (taper.type) {
+    case TaperType.UNIFORM:
+      return { width: 1, height: 1 };
+    case TaperType.LINEAR:
+      return { width: 1 + (taper.tipWidth - 1) * t, height: 1 + (taper.tipHeight - 1) * t };
+    case TaperType.PARABOLIC:
+      // h² linear in s: a tip-loaded beam tapered towards zero this way has nearly uniform surface stress
+      return {
+        width: Math.sqrt(Math.max(0, 1 + (taper.tipWidth * taper.tipWidth - 1) * t)),
+        height: Math.sqrt(Math.max(0, 1 + (taper.tipHeight * taper.tipHeight - 1) * t))
+      };
+    case TaperType.TABLE: {
+      const stations = [...taper.stations].sort((a, b) => a.s - b.s);
+      if (stations.length === 0) return { width: 1, height: 1 };
+      if (t <= stations[0].s) return { width: stations[0].width, height: stations[0].height };
+      const hi = stations.findIndex(st => st.s >= t);
+      if (hi < 0) return { width: stations[stations.length - 1].width, height: stations[stations.length - 1].height };
+      const lo = stations[hi - 1];
+      const up = stations[hi];
+      const f = up.s > lo.s ? (t - lo.s) / (up.s - lo.s) : 0;
+      return { width: lo.width + f * (up.width - lo.width), height: lo.height + f * (up.height - lo.height) };
+    }
+  }
+}
+
+/**
+ * Section properties at `samples` evenly spaced stations from root to tip, or
+ * undefined for a uniform beam. The taper scales b, and h or d; wall, flange and
+ * web thicknesses stay constant.
+ */
+export function sectionProfile(type: CrossSectionType, dims: SectionDimensions, taper: SectionTaper, samples: number = 41): SectionSample[] | undefined {
+  if (taper.type === TaperType.UNIFORM) return undefined;
+  return Array.from({ length: samples }, (_, i) => {
+    const s = i / (samples - 1);
+    const r = taperRatios(taper, s);
+    const local = { ...dims, width: dims.width * r.width, height: dims.height * r.height, diameter: dims.diameter * r.height };
+    return { s, ...sectionProperties(type, local) };
+  });
+}
+
+/**
+ * Linearly interpolated section properties of an evenly spaced profile at arc-length fraction t.
+ */
+export function interpolateProfile(profile: SectionSample[], t: number): SectionProperties {
+  const x = Math.min(Math.max(t, 0), 1) * (profile.length - 1);
+  const i = Math.min(Math.floor(x), profile.length - 2);
+  const f = x - i;
+  const a = profile[i];
+  const b = profile[i + 1];
+  return { I: a.I + f * (b.I - a.I), c: a.c + f * (b.c - a.c), A: a.A + f * (b.A - a.A) };
+}
@@ -0,0 +1,46 @@
+import { BeamParams, BeamModelType, PrbParameters, TipTangent } from '../types';
+import { solveModel } from './beamSolver';
+import { solveLinearSystem } from './linearAlgebra';
+
+// Central-difference steps as fractions of the characteristic loads EI/L² and EI/L
+const RELATIVE_STEP = 1e-4;
+
+const determinant3 = (m: number[][]) =>
+  m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+  - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+  + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+/**
+ * Tangent tip compliance at the current loads by central differences of the
+ * forward solution, and its inverse, the tangent stiffness. Models that cannot
+ * move the tip in all three directions independently (1R chains, guided tips)
+ * have a singular compliance and no stiffness matrix.
+ */
+export function tipTangent(params: BeamParams, model: BeamModelType, customPrb?: PrbParameters): TipTangent {
+  const { E, I, L } = params;
+  const EI = E * I;
+  const loads = ['P', 'nP', 'M0'] as const;
+  const steps = [EI / (L * L), EI / (L * L), EI / L].map(scale => scale * RELATIVE_STEP);
+
+  const columns = loads.map((load, j) => {
+    const tipAt = (delta: number) => {
+      const r = solveModel({ ...params, [load]: params[load] + delta }, model, customPrb);
+      return [r.tipX, r.tipY, r.tipAngle];
+    };
+    const plus = tipAt(steps[j]);
+    const minus = tipAt(-steps[j]);
+    return plus.map((v, i) => (v - minus[i]) / (2 * steps[j]));
+  });
+  const compliance = [0, 1, 2].map(i => columns.map(col => col[i]));
+
+  // Test singularity on the non-dimensional compliance (lengths in L, loads in EI/L²
+  // and EI/L), since finite differences leave rank deficiency just above zero
+  const scaled = compliance.map((row, i) => row.map((v, j) => v * (j < 2 ? EI / (L * L) : EI / L) / (i < 2 ? L : 1)));
+  const det = determinant3(scaled);
+  if (!isFinite(det) || Math.abs(det) < 1e-8) return { compliance, stiffness: null };
+
+  const inverseColumns = [0, 1, 2].map(k => solveLinearSystem(compliance, [0, 1, 2].map(i => (i === k ? 1 : 0))));
+  if (inverseColumns.some(col => col === null)) return { compliance, stiffness: null };
+  const stiffness = [0, 1, 2].map(i => inverseColumns.map(col => col![i]));
+  return { compliance, stiffness };
+}
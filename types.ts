@@ -2,15 +2,88 @@
 export enum BeamModelType {
   LINEAR = 'Linear Theory (Small Deflection)',
   NONLINEAR = 'Nonlinear Theory (Numerical ODE)',
+  NONLINEAR_GUIDED = 'Nonlinear Theory: Fixed-Guided (Numerical ODE)',
   PRB_1R_CANTILEVER_P = 'PRB 1R: Cantilever Vertical Force (A.1.2)',
   PRB_1R_CANTILEVER_PNP = 'PRB 1R: Cantilever General Force (A.1.3)',
+  PRB_1R_FIXED_GUIDED = 'PRB 1R: Fixed-Guided Beam (A.1.4)',
   PRB_1R_MOMENT = 'PRB 1R: Applied Moment (A.1.5)',
-  PRB_3R_SU = 'PRB 3R: Combined Force-Moment (Su Table A.5.3)'
+  PRB_1R_CURVED = 'PRB 1R: Initially Curved Cantilever (A.1.6)',
+  PRB_1R_FLEXURAL_PIVOT = 'PRB 1R: Small-Length Flexural Pivot (A.1.1)',
+  PRB_3R_SU = 'PRB 3R: Combined Force-Moment (Su Table A.5.3)',
+  PRB_NR_CUSTOM = 'PRB nR: Custom Link Ratios & Springs'
 }
 
 export enum CrossSectionType {
   RECTANGULAR = 'Rectangular',
-  CIRCULAR = 'Circular'
+  CIRCULAR = 'Circular',
+  HOLLOW_TUBE = 'Hollow Tube',
+  RECT_TUBE = 'Rectangular Tube',
+  I_BEAM = 'I-Beam',
+  T_SECTION = 'T-Section',
+  ELLIPTICAL = 'Elliptical'
+}
+
+// Section dimensions in display units (mm or in); bending is about the horizontal axis, so h is the bending depth
+export interface SectionDimensions {
+  width: number;    // b: overall width (flange width for I and T sections)
+  height: number;   // h: overall depth in the bending plane
+  diameter: number; // d: outer diameter of round sections
+  wall: number;     // t: tube wall thickness
+  flange: number;   // t_f: flange thickness
+  web: number;      // t_w: web thickness
+}
+
+export interface SectionProperties {
+  I: number; // Second moment of area about the bending axis (m^4)
+  c: number; // Distance from the neutral axis to the farthest fibre (m)
+  A: number; // Area (m^2)
+}
+
+export enum TaperType {
+  UNIFORM = 'Uniform',
+  LINEAR = 'Linear',       // b and h vary linearly from root to tip
+  PARABOLIC = 'Parabolic', // b² and h² vary linearly, giving a parabolic side profile
+  TABLE = 'Table'          // Piecewise linear between user-defined stations
+}
+
+export interface TaperStation {
+  s: number;      // Arc length as a fraction of L
+  width: number;  // Width relative to the root dimensions
+  height: number; // Height (or diameter) relative to the root dimensions
+}
+
+export interface SectionTaper {
+  type: TaperType;
+  tipWidth: number;  // Tip width ratio for LINEAR and PARABOLIC
+  tipHeight: number; // Tip height ratio for LINEAR and PARABOLIC
+  stations: TaperStation[]; // Used by TABLE
+}
+
+export interface SectionSample extends SectionProperties {
+  s: number; // Arc length as a fraction of L
+}
+
+export enum BoundaryCondition {
+  CANTILEVER = 'Cantilever',      // Free tip
+  FIXED_GUIDED = 'Fixed-Guided'   // Tip slides without rotating (θ₀ = 0)
+}
+
+export enum SegmentKind {
+  FLEXIBLE = 'Flexible',
+  RIGID = 'Rigid'
+}
+
+export enum LoadMode {
+  FIXED = 'Fixed Direction', // P and nP keep their global direction
+  FOLLOWER = 'Follower'      // P and nP keep their angle to the deformed tip tangent
+}
+
+export enum GravityDirection {
+  OFF = 'Off',
+  NEG_Y = '−Y',
+  POS_Y = '+Y',
+  NEG_X = '−X',
+  POS_X = '+X'
 }
 
 export enum UnitSystem {
@@ -22,20 +95,37 @@ export interface PrbParameters {
   gamma?: number;
   k_theta?: number;
   c_theta?: number;
-  links?: number[];
-  stiffness_coeffs?: number[];
+  links?: number[];            // γ₀..γₙ as fractions of L (γ₀ is the fixed segment before the first joint)
+  stiffness_coeffs?: number[]; // K_c1..K_cn, with K_i = K_ci · EI/L
   stiffness_physicals?: number[]; // Torsional spring constants K in N-m/rad
 }
 
+export interface Material {
+  name: string;
+  E: number;               // Young's modulus (Pa)
+  yieldStrength: number;   // Yield strength S_y (Pa)
+  fatigueStrength: number; // Fully reversed fatigue strength S_e at ~10^7 cycles (Pa)
+  density: number;         // kg/m^3
+  custom?: boolean;        // User-defined entry
+}
+
 export interface BeamParams {
   E: number;      // Young's Modulus (Pa)
   I: number;      // Moment of Inertia (m^4)
   L: number;      // Length (m)
   P: number;      // Vertical Load (N)
-  nP: number;     // Horizontal Load (N, where n = nP/P)
+  nP: number;     // Horizontal Load (N, where n = nP/|P|)
   M0: number;     // Applied Moment (N-m)
+  loadMode: LoadMode; // Whether P and nP rotate with the tip
+  q: number;          // Uniformly distributed load along +y (N/m of arc length)
+  density: number;    // Material density for self-weight (kg/m^3)
+  gravity: GravityDirection; // Self-weight direction, OFF to ignore it
   c: number;      // Distance to outer fiber (m)
   A: number;      // Cross-sectional Area (m^2)
+  kappa0: number; // Initial Curvature (1/m, 0 for a straight beam)
+  flexLength: number;  // Small-length flexural pivot: compliant segment length l (m)
+  rigidLength: number; // Small-length flexural pivot: rigid link length (m)
+  profile?: SectionSample[]; // Tapered beams: evenly spaced section properties from root to tip (I, c, A above are the root values)
 }
 
 export interface Point {
@@ -43,13 +133,179 @@ export interface Point {
   y: number;
 }
 
+export interface StressPoint {
+  s: number;      // Arc length from the root (m)
+  sigma: number;  // Outer-fibre bending stress Mc/I (Pa, signed with M)
+}
+
+export interface PrbValidity {
+  valid: boolean;
+  thetaMax?: number;    // Largest |Θ| (rad) the PRB parameters hold to at this load ratio
+  warnings: string[];   // Each limit the solution breaks; empty when valid
+}
+
 export interface BeamResult {
   points: Point[];
   tipX: number;
   tipY: number;
   tipAngle: number;
   maxStress: number;
+  stress: StressPoint[];        // Bending stress along the flexible length
+  strainEnergy: number;         // Stored bending energy (J)
   label: string;
   color: string;
+  boundary?: BoundaryCondition; // Defaults to CANTILEVER
+  segments?: SegmentKind[];     // Kind of each span between consecutive points
+  converged: boolean;           // Whether the equilibrium solve met its tolerance
+  iterations: number;           // Newton iterations used
+  residual: number;             // Final equilibrium residual (dimensionless)
   prbParams?: PrbParameters;
+  validity?: PrbValidity;       // PRB models: whether the model's parameters hold at this solution
+  stable?: boolean;             // Stability of this equilibrium, when the solver checks it
+  alternates?: BeamResult[];    // Other equilibria under the same loads
+}
+
+export interface EquilibriumPathPoint {
+  lambda: number;       // Load factor on P, nP, M0 and the distributed load
+  tipX: number;
+  tipY: number;
+  tipAngle: number;
+  limit: boolean;       // Turning point in λ (snap-through)
+  bifurcation: boolean; // Another branch crosses here (buckling)
+  stable?: boolean;     // Undefined for follower loads, which are not conservative
+}
+
+export interface EquilibriumPath {
+  label: string;
+  color: string;
+  branches: EquilibriumPathPoint[][]; // The primary branch first, then those switched to at bifurcations
+  solutions: BeamResult[];            // Every equilibrium found at λ = 1, the primary one first
+}
+
+export interface LoadSweepOptions {
+  steps: number;        // Number of load increments
+  startFactor: number;  // Load factor at the first step (0 = unloaded)
+  endFactor: number;    // Load factor at the last step (1 = current P, nP, M0)
+  rampDistributed?: boolean; // Also scale q and the self-weight, so a factor of 0 is fully unloaded
+}
+
+export interface LoadSweepSample {
+  loadFactor: number;
+  P: number;
+  nP: number;
+  M0: number;
+  results: BeamResult[];
+}
+
+export enum FitRangeType {
+  LOAD_MAGNITUDE = 'Load Magnitude', // Scale P, nP, M0 together
+  LOAD_ANGLE = 'Load Angle'          // Rotate the (nP, P) force at constant magnitude
+}
+
+export interface PrbFitOptions {
+  joints: number;          // 1 for a 1R model, n for an nR chain
+  rangeType: FitRangeType;
+  rangeStart: number;      // Load factor, or load angle φ in degrees (P = F·sinφ, nP = F·cosφ)
+  rangeEnd: number;
+  samples: number;
+}
+
+export interface PrbFitSample {
+  rangeValue: number;
+  positionError: number;   // |Δtip| / L
+  angleError: number;      // |Δθ₀| (rad)
+}
+
+export interface PrbFitResult {
+  prb: PrbParameters;
+  rangeType: FitRangeType;
+  samples: PrbFitSample[];
+  maxPositionError: number;
+  maxAngleError: number;
+  evaluations: number;
+}
+
+export interface TipTarget {
+  x: number;     // m
+  y: number;     // m
+  theta: number; // Tip angle θ₀ (rad)
+}
+
+export interface InverseResult {
+  label: string;
+  color: string;
+  P: number;             // Loads that best reach the target (N, N, N-m)
+  nP: number;
+  M0: number;
+  reachable: boolean;    // Target met within tolerance
+  positionError: number; // |Δtip| / L at the loads found
+  angleError: number;    // |Δθ₀| (rad)
+  iterations: number;
+  result?: BeamResult;   // Forward solution at the loads found; absent when the target is out of reach
+}
+
+export enum DesignTarget {
+  DEFLECTION = 'Tip Deflection', // Tip displacement from the unstressed tip (m)
+  ROTATION = 'Tip Rotation'      // Tip rotation from the unstressed slope (rad)
+}
+
+export enum DesignRanking {
+  STIFFEST = 'Stiffest',
+  MOST_COMPLIANT = 'Most Compliant',
+  SMALLEST = 'Smallest'
+}
+
+export interface DesignSynthesisOptions {
+  target: DesignTarget;
+  targetValue: number;     // m or rad
+  allowableStress: number; // Pa
+  minLength: number;       // Search limits, all in m
+  maxLength: number;
+  minThickness: number;    // h
+  maxThickness: number;
+  minWidth: number;        // b
+  maxWidth: number;
+  steps: number;           // Grid points per dimension
+  ranking: DesignRanking;
+}
+
+export interface DesignCandidate {
+  L: number;          // m
+  h: number;          // m
+  b: number;          // m
+  P: number;          // Applied loads scaled to reach the target (N, N, N-m)
+  nP: number;
+  M0: number;
+  maxStress: number;  // Pa, at the target
+  stiffness: number;  // Actuation load per unit target: N/m, or N-m/rad for a pure moment
+  volume: number;     // m^3
+  feasible: boolean;  // Reached the target within the allowable stress
+}
+
+export interface TipTangent {
+  compliance: number[][];        // ∂(x, y, θ₀)/∂(P, nP, M0); rows x, y, θ₀
+  stiffness: number[][] | null;  // Inverse of the compliance, null when it is singular
+}
+
+// Everything needed to reproduce an analysis. I, c, A and the taper profile are
+// derived from the section, so the beam parameters leave them out.
+export interface AnalysisState {
+  unitSystem: UnitSystem;
+  sectionType: CrossSectionType;
+  dimensions: SectionDimensions;
+  taper: SectionTaper;
+  material: Material;
+  params: Omit<BeamParams, 'I' | 'c' | 'A' | 'profile'>;
+  selectedModels: BeamModelType[];
+  customPrb: PrbParameters;
+}
+
+// A saved analysis. Enums are stored by value so the JSON stays readable.
+export interface ProjectFile {
+  schemaVersion: number;
+  name: string;
+  description: string;
+  savedAt: string;            // ISO 8601 timestamp
+  state: AnalysisState;
+  customMaterials: Material[];
 }